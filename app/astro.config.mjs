@@ -5,6 +5,7 @@ import vercel from '@astrojs/vercel';
 
 import tailwindcss from '@tailwindcss/vite';
 import react from '@astrojs/react';
+import circuitWorker from './vite-plugin-circuit-worker.mjs';
 
 // https://astro.build/config
 export default defineConfig({
@@ -12,7 +13,7 @@ export default defineConfig({
   output: 'server',
 
   vite: {
-    plugins: [tailwindcss()],
+    plugins: [tailwindcss(), circuitWorker()],
   },
 
   integrations: [react()],
@@ -8,6 +8,9 @@ import {
   HardDrive,
   Folder,
   FileText,
+  FileSpreadsheet,
+  FileArchive,
+  Box,
   Zap,
 } from "lucide-react";
 import ArtifactCircuitJsonModal from "./ArtifactCircuitJsonModal";
@@ -17,6 +20,13 @@ interface Artifact {
   fileName: string;
   filePath: string;
   fileSize?: number;
+  kind?:
+    | "circuit_json"
+    | "bom"
+    | "pick_and_place"
+    | "fabrication"
+    | "kicad"
+    | "glb";
   createdAt: string;
 }
 
@@ -41,6 +51,12 @@ const getFileIcon = (fileName: string) => {
   switch (ext) {
     case "json":
       return <FileText className="w-5 h-5 text-cyan-600" />;
+    case "csv":
+      return <FileSpreadsheet className="w-5 h-5 text-green-600" />;
+    case "zip":
+      return <FileArchive className="w-5 h-5 text-amber-600" />;
+    case "glb":
+      return <Box className="w-5 h-5 text-indigo-600" />;
     case "svg":
     case "png":
     case "jpg":
@@ -166,13 +182,15 @@ const ArtifactList: React.FC<ArtifactListProps> = ({ jobs }) => {
 
               {/* Actions */}
               <div className="flex flex-col gap-2">
-                <button
-                  onClick={() => handleViewCircuitJson(artifact)}
-                  className="flex items-center justify-center space-x-2 px-3 py-2 bg-blue-50 hover:bg-blue-100 border border-blue-200 hover:border-blue-300 rounded-lg transition-colors text-blue-700 text-sm font-medium w-full"
-                >
-                  <Zap className="w-4 h-4" />
-                  <span>Preview</span>
-                </button>
+                {(artifact.kind ?? "circuit_json") === "circuit_json" && (
+                  <button
+                    onClick={() => handleViewCircuitJson(artifact)}
+                    className="flex items-center justify-center space-x-2 px-3 py-2 bg-blue-50 hover:bg-blue-100 border border-blue-200 hover:border-blue-300 rounded-lg transition-colors text-blue-700 text-sm font-medium w-full"
+                  >
+                    <Zap className="w-4 h-4" />
+                    <span>Preview</span>
+                  </button>
+                )}
 
                 <button
                   onClick={() => handleDownload(artifact)}
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import { Box, Download, Loader2 } from "lucide-react";
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+
+interface CircuitFile {
+  path: string;
+  name: string;
+  displayName?: string;
+  status?: "success" | "error";
+}
+
+interface Artifact {
+  id: string;
+  filePath: string;
+  kind?: string;
+}
+
+interface Board3dViewerProps {
+  circuitFiles?: CircuitFile[];
+  artifacts?: Artifact[];
+}
+
+/** Renders a GLB model with orbit controls, framed to fit the view */
+const GlbModelView: React.FC<{ url: string }> = ({ url }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [status, setStatus] = useState<"loading" | "loaded" | "error">(
+    "loading",
+  );
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setStatus("loading");
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0xf8fafc);
+    scene.add(new THREE.HemisphereLight(0xffffff, 0x64748b, 2));
+    const light = new THREE.DirectionalLight(0xffffff, 1.5);
+    light.position.set(1, 2, 1);
+    scene.add(light);
+
+    const camera = new THREE.PerspectiveCamera(45, 1, 0.1, 1000);
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setPixelRatio(window.devicePixelRatio);
+    container.appendChild(renderer.domElement);
+
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+
+    const resize = () => {
+      const { clientWidth, clientHeight } = container;
+      camera.aspect = clientWidth / Math.max(clientHeight, 1);
+      camera.updateProjectionMatrix();
+      renderer.setSize(clientWidth, clientHeight);
+    };
+    resize();
+    const resizeObserver = new ResizeObserver(resize);
+    resizeObserver.observe(container);
+
+    let disposed = false;
+    new GLTFLoader().load(
+      url,
+      (gltf) => {
+        if (disposed) return;
+        scene.add(gltf.scene);
+
+        const bounds = new THREE.Box3().setFromObject(gltf.scene);
+        const center = bounds.getCenter(new THREE.Vector3());
+        const size = bounds.getSize(new THREE.Vector3()).length() || 1;
+        camera.near = size / 100;
+        camera.far = size * 100;
+        camera.position
+          .copy(center)
+          .add(new THREE.Vector3(0.6, 0.8, 0.9).multiplyScalar(size));
+        camera.updateProjectionMatrix();
+        controls.target.copy(center);
+        controls.update();
+        setStatus("loaded");
+      },
+      undefined,
+      (error) => {
+        console.error("Failed to load 3D model:", error);
+        if (!disposed) setStatus("error");
+      },
+    );
+
+    renderer.setAnimationLoop(() => {
+      controls.update();
+      renderer.render(scene, camera);
+    });
+
+    return () => {
+      disposed = true;
+      renderer.setAnimationLoop(null);
+      resizeObserver.disconnect();
+      controls.dispose();
+      scene.traverse((object) => {
+        if (object instanceof THREE.Mesh) {
+          object.geometry.dispose();
+          const materials = Array.isArray(object.material)
+            ? object.material
+            : [object.material];
+          materials.forEach((material) => material.dispose());
+        }
+      });
+      renderer.dispose();
+      renderer.domElement.remove();
+    };
+  }, [url]);
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full">
+      {status !== "loaded" && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-600">
+          {status === "loading" ? (
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          ) : (
+            "Failed to load the 3D model"
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Board3dViewer: React.FC<Board3dViewerProps> = ({
+  circuitFiles,
+  artifacts,
+}) => {
+  // Only boards whose build exported a GLB model can be shown
+  const glbArtifacts = (Array.isArray(artifacts) ? artifacts : []).filter(
+    (artifact) => artifact.kind === "glb",
+  );
+  const boards = (Array.isArray(circuitFiles) ? circuitFiles : []).filter(
+    (file) =>
+      file.status !== "error" &&
+      glbArtifacts.some((artifact) => artifact.filePath === file.path),
+  );
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  if (boards.length === 0) {
+    return null;
+  }
+
+  const board = boards.find((file) => file.path === selectedPath) ?? boards[0];
+  const glbArtifact = glbArtifacts.find(
+    (artifact) => artifact.filePath === board.path,
+  )!;
+  const glbUrl = `/api/artifacts/${glbArtifact.id}/download`;
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center space-x-3">
+          <Box className="w-5 h-5 text-blue-600" />
+          <h2 className="text-lg sm:text-xl font-semibold text-slate-900">
+            3D View
+          </h2>
+        </div>
+        <div className="flex items-center gap-2 ml-auto">
+          {boards.length > 1 && (
+            <select
+              value={board.path}
+              onChange={(event) => setSelectedPath(event.target.value)}
+              className="px-2 py-1.5 bg-white border border-slate-300 rounded-lg text-sm text-slate-700"
+            >
+              {boards.map((file) => (
+                <option key={file.path} value={file.path}>
+                  {file.displayName || file.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <a
+            href={glbUrl}
+            className="flex items-center space-x-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 border border-slate-300 hover:border-slate-400 rounded-lg transition-colors text-slate-700 text-sm font-medium"
+          >
+            <Download className="w-4 h-4" />
+            <span>GLB</span>
+          </a>
+        </div>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden h-[400px] sm:h-[500px]">
+        <GlbModelView url={glbUrl} />
+      </div>
+    </div>
+  );
+};
+
+export default Board3dViewer;
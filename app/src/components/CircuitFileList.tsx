@@ -0,0 +1,195 @@
+import {
+  CheckCircle,
+  XCircle,
+  Folder,
+  Zap,
+  AlertTriangle,
+  Cable,
+  Download,
+} from "lucide-react";
+
+interface CircuitFile {
+  path: string;
+  name: string;
+  displayName?: string;
+  status?: "success" | "error";
+  error?: string;
+  cached?: boolean;
+  diagnostics?: {
+    type: string;
+    message: string;
+    componentName?: string;
+  }[];
+}
+
+interface ErcReport {
+  path: string;
+  issues: {
+    rule: string;
+    severity: "error" | "warning";
+    message: string;
+  }[];
+}
+
+interface CircuitFileListProps {
+  deploymentId?: string;
+  circuitFiles?: CircuitFile[];
+  warnings?: string[];
+  ercReports?: ErcReport[];
+}
+
+const CircuitFileList: React.FC<CircuitFileListProps> = ({
+  deploymentId,
+  circuitFiles,
+  warnings,
+  ercReports,
+}) => {
+  const files = Array.isArray(circuitFiles) ? circuitFiles : [];
+  const failedCount = files.filter((file) => file.status === "error").length;
+
+  if (files.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex items-center space-x-3">
+        <Zap className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg sm:text-xl font-semibold text-slate-900">
+          Circuit Files
+        </h2>
+        <span className="text-sm text-slate-600">
+          ({files.length - failedCount} of {files.length} built)
+        </span>
+      </div>
+
+      {Array.isArray(warnings) && warnings.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+          <div className="flex items-center space-x-2 text-amber-700">
+            <AlertTriangle className="w-4 h-4" />
+            <span className="text-sm font-medium">Build Warnings</span>
+          </div>
+          {warnings.map((warning) => (
+            <p key={warning} className="text-sm text-amber-700 break-words">
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white border border-slate-200 rounded-xl shadow-sm divide-y divide-slate-200">
+        {files.map((file, index) => {
+          const failed = file.status === "error";
+          const ercReport = Array.isArray(ercReports)
+            ? ercReports.find((report) => report.path === file.path)
+            : undefined;
+          const exportsUrl = `/api/deployment/${deploymentId}/files/${index}`;
+
+          return (
+            <div key={file.path} className="p-4 sm:p-6 min-w-0">
+              <div className="flex items-start space-x-3 min-w-0">
+                <div className="flex-shrink-0 mt-0.5">
+                  {failed ? (
+                    <XCircle className="w-5 h-5 text-red-600" />
+                  ) : (
+                    <CheckCircle className="w-5 h-5 text-green-600" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <h3 className="font-medium text-slate-900 truncate">
+                      {file.displayName || file.name}
+                    </h3>
+                    {file.cached && (
+                      <span
+                        className="px-2 py-0.5 rounded-md bg-slate-100 border border-slate-200 text-xs text-slate-600 flex-shrink-0"
+                        title="Sources unchanged, circuit reused from an earlier build"
+                      >
+                        Cached
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1 text-xs text-slate-600 mt-1 min-w-0">
+                    <Folder className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{file.path}</span>
+                  </div>
+                  {failed && (
+                    <p className="text-sm text-red-600 mt-2 break-words font-mono">
+                      {file.error || "Unknown error"}
+                    </p>
+                  )}
+                  {!failed && deploymentId && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {[
+                        { label: "BOM", href: `${exportsUrl}/bom` },
+                        { label: "KiCad", href: `${exportsUrl}/kicad` },
+                        { label: "Netlist", href: `${exportsUrl}/netlist` },
+                      ].map((exportLink) => (
+                        <a
+                          key={exportLink.label}
+                          href={exportLink.href}
+                          className="flex items-center space-x-1 px-2 py-1 bg-slate-100 hover:bg-slate-200 border border-slate-300 rounded-md transition-colors text-xs font-medium text-slate-700"
+                        >
+                          <Download className="w-3 h-3" />
+                          <span>{exportLink.label}</span>
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {Array.isArray(file.diagnostics) &&
+                    file.diagnostics.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {file.diagnostics.map((diagnostic, index) => (
+                          <li
+                            key={index}
+                            className="flex items-start space-x-2 text-sm text-amber-700 min-w-0"
+                          >
+                            <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                            <span className="break-words">
+                              <span className="font-mono">
+                                {diagnostic.type}
+                              </span>
+                              {diagnostic.componentName &&
+                                ` (${diagnostic.componentName})`}
+                              : {diagnostic.message}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  {ercReport && (
+                    <div className="mt-3">
+                      <div className="flex items-center space-x-2 text-xs font-medium text-slate-600">
+                        <Cable className="w-3 h-3" />
+                        <span>
+                          Electrical Rule Check
+                          {ercReport.issues.length === 0
+                            ? ": no issues"
+                            : ` (${ercReport.issues.length})`}
+                        </span>
+                      </div>
+                      {ercReport.issues.length > 0 && (
+                        <ul className="mt-1 space-y-1">
+                          {ercReport.issues.map((issue, index) => (
+                            <li
+                              key={index}
+                              className={`text-sm break-words ${issue.severity === "error" ? "text-red-600" : "text-amber-700"}`}
+                            >
+                              {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CircuitFileList;
@@ -21,7 +21,7 @@ interface Deployment {
   id: string;
   owner: string;
   repo: string;
-  status: "ready" | "pending" | "error";
+  status: "ready" | "partial" | "pending" | "error" | "cancelled";
   metaType: "pull_request" | "push";
   meta: string;
   commitSha: string;
@@ -53,6 +53,18 @@ interface HealthData {
     connected: boolean;
     error?: string;
   };
+  jobQueue?: {
+    concurrency: number;
+    queueLength: number | null;
+    workers: {
+      id: number;
+      state: "idle" | "busy";
+      jobId?: string;
+      deploymentId?: string;
+      busySince?: string;
+      processedJobs: number;
+    }[];
+  };
   environment: {
     nodeEnv: string;
     hasDatabaseUrl: boolean;
@@ -325,6 +337,57 @@ const Dashboard = () => {
             </div>
           </div>
         ) : null}
+
+        {healthData?.jobQueue && (
+          <div className="bg-white border border-slate-200 rounded-xl p-4 sm:p-6 shadow-sm mt-4 sm:mt-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-2">
+                <Server className="w-5 h-5 text-slate-500" />
+                <h3 className="text-sm font-medium text-slate-900">
+                  Build Workers
+                </h3>
+              </div>
+              <span className="text-sm text-slate-600">
+                {healthData.jobQueue.queueLength ?? "—"} queued
+              </span>
+            </div>
+            {healthData.jobQueue.workers.length === 0 ? (
+              <p className="text-sm text-slate-600">
+                {healthData.jobQueue.concurrency} workers configured, none
+                started yet.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                {healthData.jobQueue.workers.map((worker) => (
+                  <div
+                    key={worker.id}
+                    className="flex items-center justify-between border border-slate-200 rounded-lg px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-slate-900">
+                        Worker #{worker.id}
+                      </div>
+                      <div className="text-xs text-slate-500 font-mono truncate">
+                        {worker.deploymentId
+                          ? worker.deploymentId
+                          : `${worker.processedJobs} jobs processed`}
+                      </div>
+                    </div>
+                    <span
+                      className={`text-xs font-medium px-2 py-0.5 rounded ${
+                        worker.state === "busy"
+                          ? "bg-amber-100 text-amber-700"
+                          : "bg-slate-100 text-slate-600"
+                      }`}
+                    >
+                      {worker.state}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {error && (
@@ -390,6 +453,10 @@ const Dashboard = () => {
                       color: "text-green-700",
                       bg: "bg-green-100 border-green-300",
                     },
+                    partial: {
+                      color: "text-orange-700",
+                      bg: "bg-orange-100 border-orange-300",
+                    },
                     pending: {
                       color: "text-amber-700",
                       bg: "bg-amber-100 border-amber-300",
@@ -398,6 +465,10 @@ const Dashboard = () => {
                       color: "text-red-700",
                       bg: "bg-red-100 border-red-300",
                     },
+                    cancelled: {
+                      color: "text-slate-700",
+                      bg: "bg-slate-100 border-slate-300",
+                    },
                   };
                   const status =
                     statusConfig[
@@ -25,6 +25,13 @@ interface DeploymentDetailsProps {
     buildDuration?: number;
     totalCircuitFiles?: number;
     createdAt: string;
+    errorMessage?: string | null;
+    workingDirectory?: string;
+    snapshotResult?: {
+      metadata?: {
+        engineVersion?: string;
+      };
+    } | null;
   };
 }
 
@@ -37,6 +44,11 @@ const statusConfig: Record<
     icon: <CheckCircle className="w-4 h-4" />,
     bg: "bg-green-100 border-green-300",
   },
+  partial: {
+    color: "text-orange-700",
+    icon: <AlertCircle className="w-4 h-4" />,
+    bg: "bg-orange-100 border-orange-300",
+  },
   error: {
     color: "text-red-700",
     icon: <XCircle className="w-4 h-4" />,
@@ -52,6 +64,11 @@ const statusConfig: Record<
     icon: <AlertCircle className="w-4 h-4" />,
     bg: "bg-slate-100 border-slate-300",
   },
+  cancelled: {
+    color: "text-slate-700",
+    icon: <AlertCircle className="w-4 h-4" />,
+    bg: "bg-slate-100 border-slate-300",
+  },
 };
 
 const DeploymentDetails: React.FC<DeploymentDetailsProps> = ({
@@ -87,6 +104,18 @@ const DeploymentDetails: React.FC<DeploymentDetailsProps> = ({
         )}
       </div>
 
+      {deployment.errorMessage && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <div className="flex items-center space-x-2 text-red-700">
+            <XCircle className="w-4 h-4" />
+            <span className="text-sm font-medium">Build Error</span>
+          </div>
+          <p className="text-sm text-red-600 mt-1 break-words">
+            {deployment.errorMessage}
+          </p>
+        </div>
+      )}
+
       {/* Repository Information */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
         <div className="space-y-3">
@@ -119,6 +148,17 @@ const DeploymentDetails: React.FC<DeploymentDetailsProps> = ({
                 {deployment.commitSha.substring(0, 7)}
               </span>
             </div>
+            {deployment.workingDirectory &&
+              deployment.workingDirectory !== "." && (
+                <div className="flex items-center space-x-2 min-w-0">
+                  <span className="text-sm text-slate-600 flex-shrink-0">
+                    Directory:
+                  </span>
+                  <span className="text-sm font-mono text-slate-900 truncate">
+                    {deployment.workingDirectory}
+                  </span>
+                </div>
+              )}
           </div>
         </div>
 
@@ -134,6 +174,16 @@ const DeploymentDetails: React.FC<DeploymentDetailsProps> = ({
                 {deployment.totalCircuitFiles || 0}
               </span>
             </div>
+            {deployment.snapshotResult?.metadata?.engineVersion && (
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className="text-sm text-slate-600 flex-shrink-0">
+                  tscircuit:
+                </span>
+                <span className="text-sm font-mono text-slate-900 truncate">
+                  {deployment.snapshotResult.metadata.engineVersion}
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
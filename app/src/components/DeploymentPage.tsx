@@ -3,6 +3,10 @@ import { Package, Zap, AlertCircle, Loader2, ArrowLeft } from "lucide-react";
 import DeploymentDetails from "./DeploymentDetails";
 import JobList from "./JobList";
 import ArtifactList from "./ArtifactList";
+import CircuitFileList from "./CircuitFileList";
+import ProjectList from "./ProjectList";
+import DrcReport from "./DrcReport";
+import Board3dViewer from "./Board3dViewer";
 
 const DeploymentPage = ({ id }: { id: string }) => {
   const [deploymentData, setDeploymentData] = useState<any>(null);
@@ -93,9 +97,39 @@ const DeploymentPage = ({ id }: { id: string }) => {
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-6 sm:space-y-8">
         <DeploymentDetails deployment={deploymentData.deployment} />
-        <JobList jobs={deploymentData.deployment.buildJobs} />
+        {deploymentData.deployment.parentId && (
+          <a
+            href={`/deployment/${deploymentData.deployment.parentId}`}
+            className="inline-flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back to all projects of this deployment</span>
+          </a>
+        )}
+        <ProjectList projects={deploymentData.deployment.projects} />
+        <CircuitFileList
+          deploymentId={deploymentData.deployment.id}
+          circuitFiles={deploymentData.deployment.snapshotResult?.circuitFiles}
+          warnings={deploymentData.deployment.snapshotResult?.warnings}
+          ercReports={deploymentData.deployment.snapshotResult?.erc}
+        />
+        <DrcReport
+          circuitFiles={deploymentData.deployment.snapshotResult?.circuitFiles}
+        />
+        <Board3dViewer
+          circuitFiles={deploymentData.deployment.snapshotResult?.circuitFiles}
+          artifacts={deploymentData.deployment.buildArtifacts}
+        />
+        {!deploymentData.deployment.parentId && (
+          <JobList jobs={deploymentData.deployment.buildJobs} />
+        )}
         <ArtifactList
-          jobs={deploymentData.deployment.buildJobs}
+          jobs={
+            // Project deployments have no jobs of their own
+            deploymentData.deployment.parentId
+              ? [{ buildArtifacts: deploymentData.deployment.buildArtifacts }]
+              : deploymentData.deployment.buildJobs
+          }
           deploymentId={deploymentData.deployment.id}
         />
       </div>
@@ -0,0 +1,112 @@
+import { Ruler, CheckCircle } from "lucide-react";
+
+interface DrcViolation {
+  rule: string;
+  message: string;
+  measured?: number;
+  required?: number;
+}
+
+interface CircuitFile {
+  path: string;
+  name: string;
+  displayName?: string;
+  drc?: {
+    violations: DrcViolation[];
+  };
+}
+
+interface DrcReportProps {
+  circuitFiles?: CircuitFile[];
+}
+
+const ruleTitles: Record<string, string> = {
+  trace_width: "Trace width",
+  clearance: "Clearance",
+  hole_to_edge: "Hole to edge",
+  component_outside_board: "Outside board",
+};
+
+const DrcReport: React.FC<DrcReportProps> = ({ circuitFiles }) => {
+  const checkedFiles = (Array.isArray(circuitFiles) ? circuitFiles : []).filter(
+    (file) => file.drc,
+  );
+
+  if (checkedFiles.length === 0) {
+    return null;
+  }
+
+  const violationCount = checkedFiles.reduce(
+    (sum, file) => sum + file.drc!.violations.length,
+    0,
+  );
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex items-center space-x-3">
+        <Ruler className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg sm:text-xl font-semibold text-slate-900">
+          Design Rule Check
+        </h2>
+        <span className="text-sm text-slate-600">
+          ({violationCount} violation{violationCount === 1 ? "" : "s"})
+        </span>
+      </div>
+
+      {violationCount === 0 ? (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-center space-x-2 text-green-700">
+          <CheckCircle className="w-4 h-4" />
+          <span className="text-sm font-medium">
+            All {checkedFiles.length} board
+            {checkedFiles.length === 1 ? "" : "s"} passed the design rule check
+          </span>
+        </div>
+      ) : (
+        <div className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-slate-600">
+                  Board
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-slate-600">
+                  Rule
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-slate-600">
+                  Violation
+                </th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600">
+                  Measured / Required
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {checkedFiles.flatMap((file) =>
+                file.drc!.violations.map((violation, index) => (
+                  <tr key={`${file.path}-${index}`}>
+                    <td className="px-4 py-3 text-slate-900 whitespace-nowrap">
+                      {file.displayName || file.name}
+                    </td>
+                    <td className="px-4 py-3 text-slate-700 whitespace-nowrap">
+                      {ruleTitles[violation.rule] || violation.rule}
+                    </td>
+                    <td className="px-4 py-3 text-slate-700 break-words">
+                      {violation.message}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-700 whitespace-nowrap">
+                      {violation.required !== undefined
+                        ? `${violation.measured ?? "—"} / ${violation.required} mm`
+                        : "—"}
+                    </td>
+                  </tr>
+                )),
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrcReport;
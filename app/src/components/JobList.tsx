@@ -20,6 +20,7 @@ interface Job {
   startedAt?: string;
   completedAt?: string;
   retryCount: number;
+  nextAttemptAt?: string | null;
   errorMessage?: string;
   progress?: number;
   logs?: string;
@@ -182,6 +183,19 @@ const JobList: React.FC<JobListProps> = ({ jobs }) => {
                   </div>
                 </div>
 
+                {/* Retry Schedule */}
+                {job.status === "queued" && job.nextAttemptAt && (
+                  <div className="flex items-center space-x-2 bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4 text-blue-700">
+                    <RotateCcw className="w-4 h-4" />
+                    <span className="text-sm">
+                      Retry {job.retryCount} scheduled for{" "}
+                      <span className="font-medium">
+                        {new Date(job.nextAttemptAt).toLocaleTimeString()}
+                      </span>
+                    </span>
+                  </div>
+                )}
+
                 {/* Progress Bar */}
                 {typeof job.progress === "number" && (
                   <div className="mb-4">
@@ -0,0 +1,126 @@
+import {
+  Boxes,
+  CheckCircle,
+  XCircle,
+  AlertCircle,
+  Loader2,
+  Folder,
+  ExternalLink,
+} from "lucide-react";
+
+interface Project {
+  id: string;
+  projectName?: string | null;
+  workingDirectory: string;
+  status: string;
+  totalCircuitFiles: number;
+  buildDuration?: number | null;
+  errorMessage?: string | null;
+}
+
+interface ProjectListProps {
+  projects?: Project[];
+}
+
+const statusConfig: Record<
+  string,
+  { color: string; icon: React.ReactNode; bg: string }
+> = {
+  ready: {
+    color: "text-green-700",
+    icon: <CheckCircle className="w-4 h-4" />,
+    bg: "bg-green-100 border-green-300",
+  },
+  partial: {
+    color: "text-orange-700",
+    icon: <AlertCircle className="w-4 h-4" />,
+    bg: "bg-orange-100 border-orange-300",
+  },
+  error: {
+    color: "text-red-700",
+    icon: <XCircle className="w-4 h-4" />,
+    bg: "bg-red-100 border-red-300",
+  },
+  pending: {
+    color: "text-amber-700",
+    icon: <Loader2 className="w-4 h-4 animate-spin" />,
+    bg: "bg-amber-100 border-amber-300",
+  },
+  cancelled: {
+    color: "text-slate-700",
+    icon: <AlertCircle className="w-4 h-4" />,
+    bg: "bg-slate-100 border-slate-300",
+  },
+};
+
+const ProjectList: React.FC<ProjectListProps> = ({ projects }) => {
+  if (!Array.isArray(projects) || projects.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex items-center space-x-3">
+        <Boxes className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg sm:text-xl font-semibold text-slate-900">
+          Projects
+        </h2>
+        <span className="text-sm text-slate-600">({projects.length})</span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+        {projects.map((project) => {
+          const status = statusConfig[project.status] || statusConfig.pending;
+
+          return (
+            <div
+              key={project.id}
+              className="bg-white border border-slate-200 rounded-xl p-4 sm:p-6 shadow-sm hover:border-slate-300 transition-colors"
+            >
+              <div className="flex items-start justify-between gap-3 mb-4 min-w-0">
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-medium text-slate-900 truncate">
+                    {project.projectName || project.workingDirectory}
+                  </h3>
+                  <div className="flex items-center space-x-1 text-xs text-slate-600 mt-1 min-w-0">
+                    <Folder className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{project.workingDirectory}</span>
+                  </div>
+                </div>
+                <div
+                  className={`flex items-center space-x-1.5 px-2 py-1 rounded-lg border text-xs font-medium flex-shrink-0 ${status.bg} ${status.color}`}
+                >
+                  {status.icon}
+                  <span className="capitalize">{project.status}</span>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between text-sm mb-4">
+                <span className="text-slate-600">Circuit Files</span>
+                <span className="font-medium text-slate-900">
+                  {project.totalCircuitFiles}
+                </span>
+              </div>
+
+              {project.errorMessage && (
+                <p className="text-sm text-red-600 mb-4 break-words">
+                  {project.errorMessage}
+                </p>
+              )}
+
+              <a
+                href={`/deployment/${project.id}`}
+                className="flex items-center justify-center space-x-2 px-3 py-2 bg-blue-50 hover:bg-blue-100 border border-blue-200 hover:border-blue-300 rounded-lg transition-colors text-blue-700 text-sm font-medium w-full"
+              >
+                <ExternalLink className="w-4 h-4" />
+                <span>Open Preview</span>
+              </a>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectList;
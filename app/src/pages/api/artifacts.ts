@@ -11,6 +11,7 @@ export async function GET(context: { request: Request }) {
     if (artifactId) {
       const artifact = await prisma.buildArtifact.findUnique({
         where: { id: artifactId },
+        omit: { content: true },
       });
 
       if (!artifact) {
@@ -32,6 +33,7 @@ export async function GET(context: { request: Request }) {
 
       const artifacts = await prisma.buildArtifact.findMany({
         where: { jobId: job.id },
+        omit: { content: true },
       });
 
       return createSuccessResponse({
@@ -45,6 +47,7 @@ export async function GET(context: { request: Request }) {
     if (jobId) {
       const artifacts = await prisma.buildArtifact.findMany({
         where: { jobId },
+        omit: { content: true },
       });
 
       return createSuccessResponse({
@@ -32,6 +32,25 @@ export async function GET(context: {
     const deploymentId = String(result.job?.deploymentId);
     const snapshotResult = result.deployment?.snapshotResult;
 
+    // Generated files (BOMs etc.) are stored with the artifact itself
+    if (artifact.kind !== "circuit_json") {
+      if (!artifact.content) {
+        return createErrorResponse("Artifact content not found", 404);
+      }
+
+      return new Response(artifact.content, {
+        headers: {
+          "Content-Type": artifact.contentType || "application/octet-stream",
+          "Content-Disposition": `attachment; filename="${artifact.fileName}"`,
+          "Content-Length": artifact.content.length.toString(),
+          "Cache-Control": "public, max-age=86400",
+          "X-Artifact-Id": artifactId,
+          "X-Deployment-Id": deploymentId,
+          "X-Original-Path": artifact.filePath,
+        },
+      });
+    }
+
     const snapshotData = snapshotResult as any;
     if (!snapshotData || !snapshotData.circuitFiles) {
       return createErrorResponse("Circuit data not found in deployment", 404);
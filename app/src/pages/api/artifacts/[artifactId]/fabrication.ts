@@ -0,0 +1,98 @@
+import path from "node:path";
+import { prisma } from "../../../../../../prisma";
+import { FabricationPackage } from "../../../../../../utils/fabrication-package";
+import { createErrorResponse } from "@/utils/http";
+
+export async function GET(context: {
+  request: Request;
+  params: { artifactId: string };
+}) {
+  const { artifactId } = context.params;
+
+  try {
+    const artifact = await prisma.buildArtifact.findUnique({
+      where: { id: artifactId },
+      omit: { content: true },
+    });
+
+    if (!artifact) {
+      return createErrorResponse("Artifact not found", 404);
+    }
+
+    // Any artifact of a board leads to that board's fabrication package
+    const fabricationArtifact = await prisma.buildArtifact.findFirst({
+      where: {
+        deploymentId: artifact.deploymentId,
+        jobId: artifact.jobId,
+        filePath: artifact.filePath,
+        kind: "fabrication",
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    let fileName: string;
+    let content: Buffer;
+
+    if (fabricationArtifact?.content) {
+      fileName = fabricationArtifact.fileName;
+      content = Buffer.from(fabricationArtifact.content);
+    } else {
+      // Builds from before fabrication packages existed only have circuit JSON
+      const circuitJsonArtifact =
+        artifact.kind === "circuit_json"
+          ? artifact
+          : await prisma.buildArtifact.findFirst({
+              where: {
+                deploymentId: artifact.deploymentId,
+                jobId: artifact.jobId,
+                filePath: artifact.filePath,
+                kind: "circuit_json",
+              },
+              omit: { content: true },
+            });
+
+      if (!circuitJsonArtifact?.circuitJson) {
+        return createErrorResponse("Circuit JSON not found", 404);
+      }
+
+      const baseName = path.basename(
+        circuitJsonArtifact.fileName,
+        path.extname(circuitJsonArtifact.fileName),
+      );
+      fileName = `${baseName}.fabrication.zip`;
+      content = await FabricationPackage.build(
+        circuitJsonArtifact.circuitJson,
+        baseName,
+      );
+    }
+
+    return new Response(content, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Content-Length": content.length.toString(),
+        "Cache-Control": "public, max-age=86400",
+        "X-Artifact-Id": fabricationArtifact?.id ?? artifactId,
+        "X-Deployment-Id": artifact.deploymentId,
+        "X-Original-Path": artifact.filePath,
+      },
+    });
+  } catch (error) {
+    console.error(
+      `Error downloading fabrication package for artifact ${artifactId}:`,
+      error,
+    );
+
+    if (error instanceof Error) {
+      return createErrorResponse(
+        `Failed to download fabrication package: ${error.message}`,
+        500,
+      );
+    }
+
+    return createErrorResponse(
+      "Internal server error while downloading fabrication package",
+      500,
+    );
+  }
+}
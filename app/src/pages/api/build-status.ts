@@ -36,6 +36,8 @@ export async function GET(context: { request: Request }) {
       startedAt: job.startedAt?.toISOString(),
       completedAt: job.completedAt?.toISOString(),
       errorMessage: job.errorMessage || undefined,
+      retryCount: job.retryCount,
+      nextAttemptAt: job.nextAttemptAt?.toISOString(),
       queuePosition: queueLength,
     };
 
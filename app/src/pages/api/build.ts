@@ -38,6 +38,7 @@ export async function POST(context: { request: Request }) {
       buildDuration: null,
       buildCompletedAt: null,
       status: "pending" as const,
+      workingDirectory: buildRequest.workingDirectory || ".",
     };
 
     await withDatabaseErrorHandling(
@@ -59,11 +60,22 @@ export async function POST(context: { request: Request }) {
       create_release: buildRequest.create_release,
       githubToken: token,
       repoArchiveUrl: buildRequest.repoArchiveUrl,
+      workingDirectory: buildRequest.workingDirectory || ".",
     };
 
     const priority = buildRequest.eventType === "pull_request" ? 1 : 0;
     const jobId = await jobQueue.queueBuild(buildJobData, priority);
 
+    if (buildRequest.eventType === "pull_request") {
+      const supersededJobs = await jobQueue.supersedePullRequestBuilds(jobId);
+
+      if (supersededJobs > 0) {
+        console.log(
+          `Cancelled ${supersededJobs} superseded builds for ${buildRequest.owner}/${buildRequest.repo}#${buildRequest.meta}`,
+        );
+      }
+    }
+
     const queueLength = await jobQueue.getQueueLength();
 
     return createSuccessResponse({
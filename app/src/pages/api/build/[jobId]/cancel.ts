@@ -0,0 +1,90 @@
+import { timingSafeEqual } from "node:crypto";
+import { JobQueue } from "../../../../../../shared/job-queue";
+import type { BuildJobData } from "../../../../../../shared/job-queue";
+import { GitHubService } from "../../../../../../shared/github.service";
+import { createErrorResponse, createSuccessResponse } from "@/utils/http";
+import { extractGitHubToken } from "@/utils/auth";
+
+/**
+ * The token the build was queued with may cancel it, any other token needs
+ * push access to the job's repository.
+ */
+async function canCancelJob(
+  token: string,
+  jobData: BuildJobData,
+): Promise<boolean> {
+  const provided = Buffer.from(token);
+  const stored = Buffer.from(jobData.githubToken ?? "");
+  if (provided.length === stored.length && timingSafeEqual(provided, stored)) {
+    return true;
+  }
+
+  return new GitHubService({ token }).hasPushAccess({
+    owner: jobData.owner,
+    repo: jobData.repo,
+  });
+}
+
+export async function POST(context: {
+  request: Request;
+  params: { jobId: string };
+}) {
+  const token = extractGitHubToken(context.request);
+
+  if (!token) {
+    return createErrorResponse("Unauthorized - Bearer token required", 401);
+  }
+
+  const { jobId } = context.params;
+
+  try {
+    const jobQueue = JobQueue.getInstance();
+    const existingJob = await jobQueue.getBuildStatus(jobId);
+
+    if (!existingJob) {
+      return createErrorResponse("Job not found", 404);
+    }
+
+    const jobData = existingJob.metadata as unknown as BuildJobData | null;
+    if (!jobData || !(await canCancelJob(token, jobData))) {
+      return createErrorResponse(
+        "Forbidden - push access to the repository required",
+        403,
+      );
+    }
+
+    if (!["queued", "processing"].includes(existingJob.status)) {
+      return createErrorResponse(
+        `Job cannot be cancelled in status: ${existingJob.status}`,
+        409,
+      );
+    }
+
+    const job = await jobQueue.cancelJob(jobId, "Cancelled via API");
+
+    if (job?.status === "processing") {
+      return createErrorResponse(
+        "Job is already being finalized and can no longer be cancelled",
+        409,
+      );
+    }
+
+    return createSuccessResponse({
+      jobId,
+      status: job?.status,
+      message:
+        existingJob.status === "processing"
+          ? "Cancellation requested, the build will stop before the next circuit file"
+          : "Build cancelled",
+    });
+  } catch (error) {
+    console.error(`Error cancelling job ${jobId}:`, error);
+    if (error instanceof Error) {
+      return createErrorResponse(
+        `Failed to cancel build: ${error.message}`,
+        500,
+      );
+    }
+    return createErrorResponse("Internal server error", 500);
+  }
+}
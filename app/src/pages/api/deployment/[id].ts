@@ -16,13 +16,17 @@ export const GET: APIRoute = async ({ params }) => {
       include: {
         buildJobs: {
           include: {
-            buildArtifacts: true,
+            buildArtifacts: { omit: { content: true } },
           },
           orderBy: { queuedAt: "desc" },
         },
         buildArtifacts: {
+          omit: { content: true },
           orderBy: { createdAt: "desc" },
         },
+        projects: {
+          orderBy: { projectName: "asc" },
+        },
       },
     });
 
@@ -43,6 +47,19 @@ export const GET: APIRoute = async ({ params }) => {
       totalCircuitFiles: deployment.totalCircuitFiles || 0,
       createdAt: deployment.createdAt.toISOString(),
       buildCompletedAt: deployment.buildCompletedAt?.toISOString() || null,
+      errorMessage: deployment.errorMessage,
+      workingDirectory: deployment.workingDirectory,
+      parentId: deployment.parentId,
+      projectName: deployment.projectName,
+      projects: deployment.projects.map((project) => ({
+        id: project.id,
+        projectName: project.projectName,
+        workingDirectory: project.workingDirectory,
+        status: project.status || "pending",
+        totalCircuitFiles: project.totalCircuitFiles || 0,
+        buildDuration: project.buildDuration,
+        errorMessage: project.errorMessage,
+      })),
       snapshotResult: deployment.snapshotResult,
       buildJobs: deployment.buildJobs.map((job) => ({
         id: job.id,
@@ -51,6 +68,7 @@ export const GET: APIRoute = async ({ params }) => {
         startedAt: job.startedAt?.toISOString() || null,
         completedAt: job.completedAt?.toISOString() || null,
         retryCount: job.retryCount,
+        nextAttemptAt: job.nextAttemptAt?.toISOString() || null,
         errorMessage: job.errorMessage,
         queuedAt: job.queuedAt.toISOString(),
         progress: job.progress || 0,
@@ -61,6 +79,7 @@ export const GET: APIRoute = async ({ params }) => {
           fileName: artifact.fileName,
           filePath: artifact.filePath,
           fileSize: artifact.fileSize,
+          kind: artifact.kind,
           createdAt: artifact.createdAt.toISOString(),
           circuitJson: artifact.circuitJson,
         })),
@@ -70,6 +89,7 @@ export const GET: APIRoute = async ({ params }) => {
         fileName: artifact.fileName,
         filePath: artifact.filePath,
         fileSize: artifact.fileSize,
+        kind: artifact.kind,
         createdAt: artifact.createdAt.toISOString(),
         circuitJson: artifact.circuitJson,
         jobId: artifact.jobId,
@@ -0,0 +1,94 @@
+import path from "node:path";
+import { prisma } from "../../../../../../../../prisma";
+import { BomGenerator } from "../../../../../../../../utils/bom-generator";
+import { createErrorResponse, createSuccessResponse } from "@/utils/http";
+
+export async function GET(context: {
+  request: Request;
+  params: { id: string; index: string };
+}) {
+  const { id, index } = context.params;
+  const url = new URL(context.request.url);
+  const format = url.searchParams.get("format") || "csv";
+
+  if (!["csv", "json"].includes(format)) {
+    return createErrorResponse("Invalid BOM format. Must be csv or json", 400);
+  }
+
+  try {
+    const deployment = await prisma.deployment.findUnique({
+      where: { id },
+    });
+
+    if (!deployment) {
+      return createErrorResponse("Deployment not found", 404);
+    }
+
+    if (!deployment.snapshotResult) {
+      return createErrorResponse(
+        "No snapshot data available for this deployment",
+        404,
+      );
+    }
+
+    const snapshotData = deployment.snapshotResult as any;
+    const fileIndexNum = parseInt(index, 10);
+
+    if (
+      isNaN(fileIndexNum) ||
+      fileIndexNum < 0 ||
+      fileIndexNum >= snapshotData.circuitFiles.length
+    ) {
+      return createErrorResponse("Invalid file index", 400);
+    }
+
+    const circuitFile = snapshotData.circuitFiles[fileIndexNum];
+    if (circuitFile?.status === "error") {
+      return createErrorResponse(
+        `Circuit file failed to build: ${circuitFile.error || "Unknown error"}`,
+        422,
+      );
+    }
+    if (!circuitFile || !circuitFile.circuitJson) {
+      return createErrorResponse("Circuit JSON not found for this file", 404);
+    }
+
+    const bom = BomGenerator.generate(circuitFile.circuitJson);
+
+    if (format === "json") {
+      return createSuccessResponse({
+        file: circuitFile.path,
+        bom,
+        totalParts: bom.reduce((total, line) => total + line.quantity, 0),
+      });
+    }
+
+    const baseName = path.basename(
+      circuitFile.name,
+      path.extname(circuitFile.name),
+    );
+
+    return new Response(BomGenerator.toCsv(bom), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${baseName}.bom.csv"`,
+        "Cache-Control": "public, max-age=86400",
+        "X-Circuit-File": circuitFile.name,
+      },
+    });
+  } catch (error) {
+    console.error(`Error generating BOM for deployment ${id}:`, error);
+
+    if (error instanceof Error) {
+      return createErrorResponse(
+        `Failed to generate BOM: ${error.message}`,
+        500,
+      );
+    }
+
+    return createErrorResponse(
+      "Internal server error while generating BOM",
+      500,
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import path from "node:path";
+import { prisma } from "../../../../../../../../prisma";
+import { KicadExporter } from "../../../../../../../../utils/kicad-exporter";
+import { createErrorResponse } from "@/utils/http";
+
+export async function GET(context: {
+  request: Request;
+  params: { id: string; index: string };
+}) {
+  const { id, index } = context.params;
+
+  try {
+    const deployment = await prisma.deployment.findUnique({
+      where: { id },
+    });
+
+    if (!deployment) {
+      return createErrorResponse("Deployment not found", 404);
+    }
+
+    if (!deployment.snapshotResult) {
+      return createErrorResponse(
+        "No snapshot data available for this deployment",
+        404,
+      );
+    }
+
+    const snapshotData = deployment.snapshotResult as any;
+    const fileIndexNum = parseInt(index, 10);
+
+    if (
+      isNaN(fileIndexNum) ||
+      fileIndexNum < 0 ||
+      fileIndexNum >= snapshotData.circuitFiles.length
+    ) {
+      return createErrorResponse("Invalid file index", 400);
+    }
+
+    const circuitFile = snapshotData.circuitFiles[fileIndexNum];
+    if (circuitFile?.status === "error") {
+      return createErrorResponse(
+        `Circuit file failed to build: ${circuitFile.error || "Unknown error"}`,
+        422,
+      );
+    }
+    if (!circuitFile || !circuitFile.circuitJson) {
+      return createErrorResponse("Circuit JSON not found for this file", 404);
+    }
+
+    const artifactKey = {
+      deploymentId: id,
+      filePath: circuitFile.path,
+      kind: "kicad" as const,
+    };
+    let artifact = await prisma.buildArtifact.findUnique({
+      where: { deploymentId_filePath_kind: artifactKey },
+    });
+    const cacheStatus = artifact?.content ? "HIT" : "MISS";
+
+    if (!artifact?.content) {
+      const projectName = path.basename(
+        circuitFile.name,
+        path.extname(circuitFile.name),
+      );
+      const content = await KicadExporter.export(
+        circuitFile.circuitJson,
+        projectName,
+      );
+
+      // Keep the export next to the board's other artifacts of the build
+      const circuitJsonArtifact = await prisma.buildArtifact.findFirst({
+        where: {
+          deploymentId: id,
+          filePath: circuitFile.path,
+          kind: "circuit_json",
+        },
+        select: { jobId: true },
+      });
+
+      // A concurrent request may have stored the export first, keep that one
+      artifact = await prisma.buildArtifact.upsert({
+        where: { deploymentId_filePath_kind: artifactKey },
+        update: {},
+        create: {
+          ...artifactKey,
+          jobId: circuitJsonArtifact?.jobId,
+          fileName: `${projectName}.kicad.zip`,
+          fileSize: content.length,
+          content,
+          contentType: "application/zip",
+        },
+      });
+      console.log(
+        `Cached KiCad export of ${circuitFile.path} for deployment ${id}`,
+      );
+    }
+
+    return new Response(artifact.content, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${artifact.fileName}"`,
+        "Content-Length": String(artifact.fileSize),
+        "Cache-Control": "public, max-age=86400",
+        "X-Artifact-Id": artifact.id,
+        "X-Circuit-File": circuitFile.name,
+        "X-Cache": cacheStatus,
+      },
+    });
+  } catch (error) {
+    console.error(`Error exporting KiCad project for deployment ${id}:`, error);
+
+    if (error instanceof Error) {
+      return createErrorResponse(
+        `Failed to export KiCad project: ${error.message}`,
+        500,
+      );
+    }
+
+    return createErrorResponse(
+      "Internal server error while exporting KiCad project",
+      500,
+    );
+  }
+}
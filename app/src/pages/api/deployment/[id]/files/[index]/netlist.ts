@@ -0,0 +1,96 @@
+import path from "node:path";
+import { prisma } from "../../../../../../../../prisma";
+import { NetlistGenerator } from "../../../../../../../../utils/netlist-generator";
+import { createErrorResponse, createSuccessResponse } from "@/utils/http";
+
+export async function GET(context: {
+  request: Request;
+  params: { id: string; index: string };
+}) {
+  const { id, index } = context.params;
+  const url = new URL(context.request.url);
+  const format = url.searchParams.get("format") || "kicad";
+
+  if (!["kicad", "json"].includes(format)) {
+    return createErrorResponse(
+      "Invalid netlist format. Must be kicad or json",
+      400,
+    );
+  }
+
+  try {
+    const deployment = await prisma.deployment.findUnique({
+      where: { id },
+    });
+
+    if (!deployment) {
+      return createErrorResponse("Deployment not found", 404);
+    }
+
+    if (!deployment.snapshotResult) {
+      return createErrorResponse(
+        "No snapshot data available for this deployment",
+        404,
+      );
+    }
+
+    const snapshotData = deployment.snapshotResult as any;
+    const fileIndexNum = parseInt(index, 10);
+
+    if (
+      isNaN(fileIndexNum) ||
+      fileIndexNum < 0 ||
+      fileIndexNum >= snapshotData.circuitFiles.length
+    ) {
+      return createErrorResponse("Invalid file index", 400);
+    }
+
+    const circuitFile = snapshotData.circuitFiles[fileIndexNum];
+    if (circuitFile?.status === "error") {
+      return createErrorResponse(
+        `Circuit file failed to build: ${circuitFile.error || "Unknown error"}`,
+        422,
+      );
+    }
+    if (!circuitFile || !circuitFile.circuitJson) {
+      return createErrorResponse("Circuit JSON not found for this file", 404);
+    }
+
+    const netlist = NetlistGenerator.generate(circuitFile.circuitJson);
+
+    if (format === "json") {
+      return createSuccessResponse({
+        file: circuitFile.path,
+        nets: NetlistGenerator.toJsonMap(netlist),
+      });
+    }
+
+    const baseName = path.basename(
+      circuitFile.name,
+      path.extname(circuitFile.name),
+    );
+
+    return new Response(NetlistGenerator.toKicad(netlist, circuitFile.path), {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${baseName}.net"`,
+        "Cache-Control": "public, max-age=86400",
+        "X-Circuit-File": circuitFile.name,
+      },
+    });
+  } catch (error) {
+    console.error(`Error generating netlist for deployment ${id}:`, error);
+
+    if (error instanceof Error) {
+      return createErrorResponse(
+        `Failed to generate netlist: ${error.message}`,
+        500,
+      );
+    }
+
+    return createErrorResponse(
+      "Internal server error while generating netlist",
+      500,
+    );
+  }
+}
@@ -32,8 +32,9 @@ export async function GET(context: { request: Request }) {
         });
 
         if (job) {
+          // One circuit JSON per built board, generated files aside
           artifactCount = await prisma.buildArtifact.count({
-            where: { jobId: job.id },
+            where: { jobId: job.id, kind: "circuit_json" },
           });
         }
       } catch (error) {
@@ -52,6 +53,10 @@ export async function GET(context: { request: Request }) {
         totalCircuitFiles: deployment.totalCircuitFiles || 0,
         createdAt: deployment.createdAt.toISOString(),
         buildCompletedAt: deployment.buildCompletedAt?.toISOString() || null,
+        errorMessage: deployment.errorMessage,
+        workingDirectory: deployment.workingDirectory,
+        parentId: deployment.parentId,
+        projectName: deployment.projectName,
       };
 
       return createSuccessResponse({
@@ -62,7 +67,8 @@ export async function GET(context: { request: Request }) {
       });
     }
 
-    const whereClause: any = {};
+    // Project deployments of a monorepo are listed under their parent
+    const whereClause: any = { parentId: null };
     if (owner) whereClause.owner = owner;
     if (repo) whereClause.repo = repo;
     if (status) whereClause.status = status;
@@ -87,6 +93,10 @@ export async function GET(context: { request: Request }) {
         totalCircuitFiles: deployment.totalCircuitFiles || 0,
         createdAt: deployment.createdAt.toISOString(),
         buildCompletedAt: deployment.buildCompletedAt?.toISOString() || null,
+        errorMessage: deployment.errorMessage,
+        workingDirectory: deployment.workingDirectory,
+        parentId: deployment.parentId,
+        projectName: deployment.projectName,
       }),
     );
 
@@ -1,9 +1,11 @@
 import { createSuccessResponse } from "@/utils/http";
 import { checkDatabaseConnection } from "../../../../prisma";
+import { JobQueue } from "../../../../shared/job-queue";
 
 export async function GET() {
   try {
     const dbHealth = await checkDatabaseConnection();
+    const jobQueue = JobQueue.getInstance();
 
     const healthData = {
       status: dbHealth.healthy ? "healthy" : "unhealthy",
@@ -14,6 +16,12 @@ export async function GET() {
         connected: dbHealth.healthy,
         error: dbHealth.error,
       },
+      jobQueue: {
+        instanceId: jobQueue.getInstanceId(),
+        concurrency: jobQueue.getConcurrency(),
+        queueLength: dbHealth.healthy ? await jobQueue.getQueueLength() : null,
+        workers: jobQueue.getWorkerStatuses(),
+      },
       environment: {
         nodeEnv: process.env.NODE_ENV,
         hasDatabaseUrl: !!process.env.DATABASE_URL,
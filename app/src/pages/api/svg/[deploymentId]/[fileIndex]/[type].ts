@@ -45,6 +45,12 @@ export async function GET(context: {
     }
 
     const circuitFile = snapshotData.circuitFiles[fileIndexNum];
+    if (circuitFile?.status === "error") {
+      return createErrorResponse(
+        `Circuit file failed to build: ${circuitFile.error || "Unknown error"}`,
+        422,
+      );
+    }
     if (!circuitFile || !circuitFile.circuitJson) {
       return createErrorResponse("Circuit JSON not found for this file", 404);
     }
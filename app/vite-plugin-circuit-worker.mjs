@@ -0,0 +1,43 @@
+// @ts-check
+import fs from 'node:fs';
+import path from 'node:path';
+
+const WORKER_FILE_NAME = 'circuit-worker.mjs';
+const WORKER_URL_RE =
+  /new URL\(\s*["']\.\/circuit-worker\.mjs["']\s*,\s*import\.meta\.url\s*\)/g;
+
+/**
+ * Vite only bundles `new URL(..., import.meta.url)` assets of client code, so
+ * the server build would leave out the entry of the circuit child process
+ * (utils/circuit-worker.mjs). This emits it into the server output and points
+ * the URL at the emitted file.
+ *
+ * @returns {import('vite').Plugin}
+ */
+export default function circuitWorker() {
+  return {
+    name: 'circuit-worker',
+    apply: 'build',
+    transform(code, id) {
+      if (!code.includes(WORKER_FILE_NAME) || !code.match(WORKER_URL_RE)) {
+        return null;
+      }
+
+      const referenceId = this.emitFile({
+        type: 'asset',
+        fileName: WORKER_FILE_NAME,
+        source: fs.readFileSync(
+          path.join(path.dirname(id.split('?')[0]), WORKER_FILE_NAME),
+        ),
+      });
+
+      return {
+        code: code.replace(
+          WORKER_URL_RE,
+          `new URL(import.meta.ROLLUP_FILE_URL_${referenceId})`,
+        ),
+        map: null,
+      };
+    },
+  };
+}
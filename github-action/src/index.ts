@@ -27,7 +27,7 @@ async function run(): Promise<void> {
     core.info("🔍 Parsing inputs...");
     const inputs = InputSchema.parse({
       githubToken: core.getInput("github-token"),
-      workingDirectory: core.getInput("working-directory"),
+      workingDirectory: core.getInput("working-directory") || ".",
       create_release: core.getInput("create-release") === "true",
     });
     core.info("✅ Inputs parsed successfully.");
@@ -50,6 +50,7 @@ async function run(): Promise<void> {
     core.info(`\tRepository: ${context.repo.owner}/${context.repo.repo}`);
     core.info(`\tEvent: ${context.eventName}`);
     core.info(`\tSHA: ${context.sha}`);
+    core.info(`\tWorking directory: ${inputs.workingDirectory}`);
 
     const startTime = Date.now();
     core.info("⏱️ Start time recorded.");
@@ -141,6 +142,7 @@ async function run(): Promise<void> {
       checkRunId: checkRunId,
       create_release: EVENT_TYPE === "push" && (inputs.create_release || false),
       repoArchiveUrl,
+      workingDirectory: inputs.workingDirectory,
     };
     core.info("✅ Build request prepared");
 
@@ -337,6 +339,12 @@ async function waitForBuildCompletion(
           core.info(`💬 ${status.message}`);
         }
 
+        if (status.status === "queued" && status.nextAttemptAt) {
+          core.info(
+            `🔄 Retry ${status.retryCount} scheduled for ${status.nextAttemptAt}`,
+          );
+        }
+
         if (status.status === "completed") {
           core.info("✅ Build completed successfully!");
 
@@ -3,3 +3,57 @@ export const DEPLOY_URL =
 export const DEPLOY_SERVER_URL =
   process.env.DEPLOY_SERVER_URL || "https://tsc-deploy.vercel.app";
 export const JOB_MAX_RETRIES = 3;
+export const JOB_WORKER_CONCURRENCY = Math.max(
+  1,
+  parseInt(process.env.JOB_WORKER_CONCURRENCY || "2", 10) || 1,
+);
+export const JOB_LEASE_DURATION_MS = Math.max(
+  10000,
+  parseInt(process.env.JOB_LEASE_DURATION_MS || "60000", 10) || 60000,
+);
+export const JOB_HEARTBEAT_INTERVAL_MS = Math.floor(JOB_LEASE_DURATION_MS / 4);
+export const JOB_REAPER_INTERVAL_MS = 30000;
+export const BUILD_JOB_TIMEOUT_MS =
+  parseInt(process.env.BUILD_JOB_TIMEOUT_MS || "900000", 10) || 900000;
+export const CIRCUIT_BUILD_CONCURRENCY =
+  parseInt(process.env.CIRCUIT_BUILD_CONCURRENCY || "2", 10) || 2;
+export const CIRCUIT_WORKER_MAX_MEMORY_MB =
+  parseInt(process.env.CIRCUIT_WORKER_MAX_MEMORY_MB || "512", 10) || 512;
+export const CIRCUIT_RENDER_TIMEOUT_MS =
+  parseInt(process.env.CIRCUIT_RENDER_TIMEOUT_MS || "120000", 10) || 120000;
+export const PROJECT_CONFIG_FILE_NAME = "tscircuit-deploy.json";
+export const ASSET_MAX_SIZE_BYTES =
+  parseInt(process.env.ASSET_MAX_SIZE_BYTES || "5242880", 10) || 5242880;
+export const DEFAULT_ASSET_EXTENSIONS = [
+  ".json",
+  ".kicad_mod",
+  ".kicad_sym",
+  ".step",
+  ".stp",
+  ".obj",
+  ".stl",
+  ".wrl",
+  ".glb",
+  ".gltf",
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".svg",
+];
+export const PACKAGE_CACHE_DIR =
+  process.env.PACKAGE_CACHE_DIR || "/tmp/tscircuit-deploy-packages";
+export const PACKAGE_REGISTRY_URL =
+  process.env.PACKAGE_REGISTRY_URL || "https://registry.npmjs.org";
+export const TSCI_REGISTRY_URL =
+  process.env.TSCI_REGISTRY_URL || "https://npm.tscircuit.com";
+export const PACKAGE_CACHE_OFFLINE =
+  process.env.PACKAGE_CACHE_OFFLINE === "true";
+
+// Pinned tscircuit installs, one `npm install --prefix <dir>/<version>` each
+export const TSCIRCUIT_VERSIONS_DIR =
+  process.env.TSCIRCUIT_VERSIONS_DIR || "/opt/tscircuit-versions";
+
+// Design rule defaults in mm, overridable in tscircuit-deploy.json
+export const DEFAULT_DRC_MIN_TRACE_WIDTH_MM = 0.15;
+export const DEFAULT_DRC_MIN_CLEARANCE_MM = 0.15;
+export const DEFAULT_DRC_MIN_HOLE_TO_EDGE_MM = 0.25;
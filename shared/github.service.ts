@@ -7,6 +7,18 @@ const GitHubConfigSchema = z.object({
 
 type GitHubConfig = z.infer<typeof GitHubConfigSchema>;
 
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "notice" | "warning" | "failure";
+  title?: string;
+  message: string;
+}
+
+// GitHub accepts at most 50 annotations per check run request
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
 export class GitHubService {
   private octokit: ReturnType<typeof github.getOctokit>;
   private config: GitHubConfig;
@@ -50,7 +62,7 @@ export class GitHubService {
     owner: string;
     repo: string;
     deploymentId: number;
-    state: "in_progress" | "success" | "failure";
+    state: "in_progress" | "success" | "failure" | "inactive";
     description: string;
     environmentUrl?: string;
     logUrl: string;
@@ -127,9 +139,12 @@ export class GitHubService {
       title: string;
       summary: string;
       text?: string;
+      annotations?: CheckRunAnnotation[];
     };
   }): Promise<void> {
     try {
+      const { annotations = [], ...output } = params.output;
+
       await this.octokit.rest.checks.update({
         owner: params.owner,
         repo: params.repo,
@@ -137,8 +152,32 @@ export class GitHubService {
         status: params.status,
         conclusion: params.conclusion,
         details_url: params.detailsUrl,
-        output: params.output,
+        output: {
+          ...output,
+          annotations: annotations.slice(0, MAX_ANNOTATIONS_PER_REQUEST),
+        },
       });
+
+      // Further updates append the remaining annotations in batches
+      for (
+        let start = MAX_ANNOTATIONS_PER_REQUEST;
+        start < annotations.length;
+        start += MAX_ANNOTATIONS_PER_REQUEST
+      ) {
+        await this.octokit.rest.checks.update({
+          owner: params.owner,
+          repo: params.repo,
+          check_run_id: params.checkRunId,
+          output: {
+            title: output.title,
+            summary: output.summary,
+            annotations: annotations.slice(
+              start,
+              start + MAX_ANNOTATIONS_PER_REQUEST,
+            ),
+          },
+        });
+      }
     } catch (error) {
       console.error("Failed to update check run:", error);
       throw error;
@@ -185,6 +224,24 @@ export class GitHubService {
     }
   }
 
+  /** Whether the token's user can push to the repository */
+  async hasPushAccess(params: {
+    owner: string;
+    repo: string;
+  }): Promise<boolean> {
+    try {
+      const { data } = await this.octokit.rest.repos.get({
+        owner: params.owner,
+        repo: params.repo,
+      });
+
+      return Boolean(data.permissions?.push || data.permissions?.admin);
+    } catch (error) {
+      console.error("Failed to check repository permissions:", error);
+      return false;
+    }
+  }
+
   async getLatestTag(params: {
     owner: string;
     repo: string;
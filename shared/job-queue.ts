@@ -1,15 +1,37 @@
 import { prisma } from "../prisma";
 import { SnapshotProcessor, BuildProgress } from "../utils/snapshot-processor";
 import { GitHubService } from "./github.service";
-import { DEPLOY_URL, JOB_MAX_RETRIES } from "./constants";
-import { generatePRComment } from "../utils/pr-comment";
-import type { PRCommentData } from "../utils/pr-comment";
+import {
+  BUILD_JOB_TIMEOUT_MS,
+  DEPLOY_URL,
+  JOB_HEARTBEAT_INTERVAL_MS,
+  JOB_LEASE_DURATION_MS,
+  JOB_MAX_RETRIES,
+  JOB_REAPER_INTERVAL_MS,
+  JOB_WORKER_CONCURRENCY,
+  PROJECT_CONFIG_FILE_NAME,
+} from "./constants";
+import {
+  generatePRComment,
+  generateProjectsPRComment,
+} from "../utils/pr-comment";
+import type { PRCommentData, ProjectCommentData } from "../utils/pr-comment";
 import { env } from "./env";
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import { FileHandler } from "../utils/file-handler";
 import { SnapshotResult } from "shared/types";
-import { BuildJob } from "@prisma/client";
+import { ProjectDetector } from "../utils/project-detector";
+import type { DeployProject } from "../utils/project-detector";
+import { ulid } from "ulid";
+import { CircuitDiagnostics } from "../utils/circuit-diagnostics";
+import { DesignRuleChecker } from "../utils/design-rule-checker";
+import { BomGenerator } from "../utils/bom-generator";
+import { PickAndPlaceGenerator } from "../utils/pick-and-place-generator";
+import { FabricationPackage } from "../utils/fabrication-package";
+import { GlbExporter } from "../utils/glb-exporter";
+import { BuildJob, Prisma } from "@prisma/client";
 export interface BuildJobData {
   deploymentId: string;
   owner: string;
@@ -29,12 +51,76 @@ export interface BuildJobData {
   create_release?: boolean;
   githubToken: string;
   repoArchiveUrl?: string;
+  // Project root relative to the repository root
+  workingDirectory?: string;
+}
+
+interface ProjectBuildResult {
+  project: DeployProject;
+  deploymentId: string;
+  snapshot: SnapshotResult;
+}
+
+/** Check run title when the repository's checks fail the build, else null */
+function getFailedChecksTitle(snapshots: SnapshotResult[]): string | null {
+  if (
+    snapshots.some((snapshot) => CircuitDiagnostics.shouldFailCheck(snapshot))
+  ) {
+    return "❌ Circuit Errors Found";
+  }
+  if (
+    snapshots.some((snapshot) => DesignRuleChecker.shouldFailCheck(snapshot))
+  ) {
+    return "❌ Design Rule Violations";
+  }
+  return null;
+}
+
+/** Check run sections listing circuit errors and DRC violations */
+function renderCheckReports(snapshots: SnapshotResult[]): string {
+  let text = "";
+
+  const circuitErrors = snapshots
+    .map((snapshot) => CircuitDiagnostics.toMarkdown(snapshot))
+    .filter(Boolean)
+    .join("\n");
+  if (circuitErrors) {
+    text += `\n\n## 🚨 Circuit Errors\n${circuitErrors}`;
+  }
+
+  const drcTables = snapshots
+    .map((snapshot) => DesignRuleChecker.toMarkdownTable(snapshot))
+    .filter(Boolean)
+    .join("\n\n");
+  if (drcTables) {
+    text += `\n\n## 📐 Design Rule Violations\n${drcTables}`;
+  }
+
+  return text;
+}
+
+/** File name of a board without its extension, e.g. "index.circuit" */
+function getArtifactBaseName(fileName: string): string {
+  return path.basename(fileName, path.extname(fileName));
+}
+
+export interface WorkerStatus {
+  id: number;
+  state: "idle" | "busy";
+  jobId?: string;
+  deploymentId?: string;
+  busySince?: string;
+  processedJobs: number;
 }
 
 export class JobQueue {
   private static instance: JobQueue;
   private isProcessing = false;
   private processingPromise?: Promise<void>;
+  private workers: WorkerStatus[] = [];
+  private reaperInterval?: ReturnType<typeof setInterval>;
+  private activeJobs = new Map<string, AbortController>();
+  private readonly instanceId = `${os.hostname()}:${process.pid}`;
 
   private constructor() {}
 
@@ -79,58 +165,325 @@ export class JobQueue {
     return count;
   }
 
-  private async startProcessing() {
+  getConcurrency(): number {
+    return JOB_WORKER_CONCURRENCY;
+  }
+
+  getWorkerStatuses(): WorkerStatus[] {
+    return this.workers.map((worker) => ({ ...worker }));
+  }
+
+  getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  /**
+   * Cancels a queued or running job. Queued jobs are concluded right away;
+   * running jobs are stopped by their worker before the next circuit file.
+   * Jobs that are already writing their results are left to finish.
+   */
+  async cancelJob(jobId: string, reason: string): Promise<BuildJob | null> {
+    const job = await prisma.buildJob.findUnique({ where: { id: jobId } });
+    if (!job) return null;
+
+    const cancelledData = {
+      status: "cancelled" as const,
+      completedAt: new Date(),
+      errorMessage: reason,
+      nextAttemptAt: null,
+    };
+
+    const queued = await prisma.buildJob.updateMany({
+      where: { id: jobId, status: "queued" },
+      data: cancelledData,
+    });
+
+    if (queued.count > 0) {
+      console.log(`Cancelled queued job ${jobId}: ${reason}`);
+      await this.handleJobCancellation(
+        job,
+        job.metadata as unknown as BuildJobData,
+        reason,
+      );
+    } else {
+      const processing = await prisma.buildJob.updateMany({
+        where: { id: jobId, status: "processing", finalizingAt: null },
+        data: cancelledData,
+      });
+
+      if (processing.count > 0) {
+        console.log(`Cancellation requested for running job ${jobId}`);
+        // Workers on other instances notice on their next heartbeat
+        this.activeJobs.get(jobId)?.abort();
+      }
+    }
+
+    return await prisma.buildJob.findUnique({ where: { id: jobId } });
+  }
+
+  /**
+   * Cancels the builds of the same pull request and project that were
+   * queued before the given job for another commit.
+   */
+  async supersedePullRequestBuilds(newJobId: string): Promise<number> {
+    const newJob = await prisma.buildJob.findUnique({
+      where: { id: newJobId },
+      include: { deployment: true },
+    });
+    if (!newJob) return 0;
+
+    const { deployment } = newJob;
+    const staleJobs = await prisma.buildJob.findMany({
+      where: {
+        id: { not: newJob.id },
+        status: { in: ["queued", "processing"] },
+        // A request that arrives late must not cancel newer builds
+        queuedAt: { lt: newJob.queuedAt },
+        deployment: {
+          owner: deployment.owner,
+          repo: deployment.repo,
+          metaType: "pull_request",
+          meta: deployment.meta,
+          // Projects of a monorepo are built independently
+          workingDirectory: deployment.workingDirectory,
+          commitSha: { not: deployment.commitSha },
+        },
+      },
+      select: { id: true },
+    });
+
+    for (const staleJob of staleJobs) {
+      await this.cancelJob(
+        staleJob.id,
+        `Superseded by a newer commit (deployment ${deployment.id})`,
+      );
+    }
+
+    return staleJobs.length;
+  }
+
+  /**
+   * Re-queues jobs whose lease expired because the worker holding them
+   * stopped sending heartbeats (crashed process, killed function, etc).
+   */
+  async reapExpiredJobs(): Promise<number> {
+    const expiredJobs = await prisma.buildJob.findMany({
+      where: { status: "processing", leaseExpiresAt: { lt: new Date() } },
+    });
+
+    let reaped = 0;
+    for (const job of expiredJobs) {
+      const exhausted = job.retryCount >= JOB_MAX_RETRIES;
+      const errorMessage = `Worker ${job.workerId || "unknown"} stopped responding (lease expired)`;
+
+      const { count } = await prisma.buildJob.updateMany({
+        where: {
+          id: job.id,
+          status: "processing",
+          leaseExpiresAt: { lt: new Date() },
+        },
+        data: {
+          status: exhausted ? "failed" : "queued",
+          startedAt: exhausted ? job.startedAt : null,
+          completedAt: exhausted ? new Date() : null,
+          nextAttemptAt: null,
+          workerId: null,
+          heartbeatAt: null,
+          leaseExpiresAt: null,
+          errorMessage,
+          retryCount: { increment: 1 },
+        },
+      });
+
+      if (count === 0) continue;
+      reaped++;
+
+      if (exhausted) {
+        console.log(
+          `Job ${job.id} lease expired after ${JOB_MAX_RETRIES} retries`,
+        );
+        await this.handleJobFailure(
+          job,
+          job.metadata as unknown as BuildJobData,
+          errorMessage,
+        ).catch((error) =>
+          console.error(`Failed to report reaped job ${job.id}:`, error),
+        );
+      } else {
+        console.log(
+          `Job ${job.id} lease expired, re-queued for another worker`,
+        );
+      }
+    }
+
+    return reaped;
+  }
+
+  /**
+   * Starts the worker pool and the lease reaper unless they already run. The
+   * workers keep polling the queue, so the returned promise only settles if
+   * they stop.
+   */
+  async startProcessing() {
     if (this.isProcessing) {
       return this.processingPromise;
     }
 
     this.isProcessing = true;
-    this.processingPromise = this.processJobs();
+    this.workers = Array.from({ length: JOB_WORKER_CONCURRENCY }, (_, id) => ({
+      id,
+      state: "idle" as const,
+      processedJobs: 0,
+    }));
+    this.processingPromise = Promise.all(
+      this.workers.map((worker) => this.processJobs(worker)),
+    ).then(() => undefined);
+    this.reaperInterval = setInterval(() => {
+      this.reapExpiredJobs().catch((error) =>
+        console.error("Failed to reap expired jobs:", error),
+      );
+    }, JOB_REAPER_INTERVAL_MS);
 
     try {
       await this.processingPromise;
     } finally {
+      clearInterval(this.reaperInterval);
       this.isProcessing = false;
       this.processingPromise = undefined;
     }
   }
 
-  private async processJobs() {
+  private async processJobs(worker: WorkerStatus) {
     while (true) {
-      const nextJob = await this.getNextJob();
+      let nextJob: BuildJob | null = null;
+
+      try {
+        nextJob = await this.getNextJob(this.getWorkerId(worker));
+      } catch (error) {
+        console.error(`Worker ${worker.id} failed to claim a job:`, error);
+      }
 
       if (!nextJob) {
         await new Promise((resolve) => setTimeout(resolve, 5000));
         continue;
       }
 
-      await this.processJob(nextJob);
+      worker.state = "busy";
+      worker.jobId = nextJob.id;
+      worker.deploymentId = nextJob.deploymentId;
+      worker.busySince = new Date().toISOString();
+
+      try {
+        console.log(`Worker ${worker.id} claimed job ${nextJob.id}`);
+        await this.processJob(nextJob, this.getWorkerId(worker));
+      } catch (error) {
+        console.error(
+          `Worker ${worker.id} crashed on job ${nextJob.id}:`,
+          error,
+        );
+      } finally {
+        worker.state = "idle";
+        worker.jobId = undefined;
+        worker.deploymentId = undefined;
+        worker.busySince = undefined;
+        worker.processedJobs++;
+      }
     }
   }
 
-  private async getNextJob(): Promise<BuildJob | null> {
-    const job = await prisma.buildJob.findFirst({
-      where: { status: "queued" },
-      orderBy: [{ priority: "desc" }, { queuedAt: "asc" }],
-    });
+  private getWorkerId(worker: WorkerStatus): string {
+    return `${this.instanceId}#${worker.id}`;
+  }
 
-    if (!job) return null;
+  private async getNextJob(workerId: string): Promise<BuildJob | null> {
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + JOB_LEASE_DURATION_MS);
+
+    // Claim in a single statement so concurrent workers (in this or any
+    // other server instance) can never pick up the same job
+    const claimed = await prisma.$queryRaw<{ id: string }[]>`
+      UPDATE build_jobs
+      SET status = 'processing',
+          started_at = ${now},
+          worker_id = ${workerId},
+          heartbeat_at = ${now},
+          lease_expires_at = ${leaseExpiresAt},
+          finalizing_at = NULL
+      WHERE id = (
+        SELECT id FROM build_jobs
+        WHERE status = 'queued'
+          AND (next_attempt_at IS NULL OR next_attempt_at <= ${now})
+        ORDER BY priority DESC, queued_at ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id
+    `;
+
+    if (claimed.length === 0) return null;
+
+    return await prisma.buildJob.findUnique({ where: { id: claimed[0].id } });
+  }
 
-    const updatedJob = await prisma.buildJob.update({
-      where: { id: job.id },
+  private async renewLease(jobId: string, workerId: string): Promise<boolean> {
+    const now = new Date();
+    const { count } = await prisma.buildJob.updateMany({
+      where: { id: jobId, status: "processing", workerId },
       data: {
-        status: "processing",
-        startedAt: new Date(),
+        heartbeatAt: now,
+        leaseExpiresAt: new Date(now.getTime() + JOB_LEASE_DURATION_MS),
       },
     });
 
-    return updatedJob;
+    if (count === 0) {
+      console.warn(`Worker ${workerId} no longer holds the lease on ${jobId}`);
+    }
+
+    return count > 0;
+  }
+
+  /**
+   * Marks the job as finalizing so it can no longer be cancelled while the
+   * deployment, PR comment and check run are written. Aborts the build when
+   * it was cancelled before.
+   */
+  private async beginFinalization(
+    jobId: string,
+    workerId: string,
+    abortController: AbortController,
+  ) {
+    const { count } = await prisma.buildJob.updateMany({
+      where: { id: jobId, status: "processing", workerId, finalizingAt: null },
+      data: { finalizingAt: new Date() },
+    });
+
+    if (count === 0) {
+      abortController.abort();
+      throw new Error("Build was cancelled");
+    }
   }
 
-  private async processJob(job: BuildJob) {
+  private async processJob(job: BuildJob, workerId: string) {
     // Cast to unknown first to safely convert the metadata to BuildJobData
     const jobData = job.metadata as unknown as BuildJobData;
     let workingDirectory: string | null = null;
+    const abortController = new AbortController();
+    this.activeJobs.set(job.id, abortController);
+    let timedOut = false;
+    const jobTimeout = setTimeout(() => {
+      timedOut = true;
+      abortController.abort();
+    }, BUILD_JOB_TIMEOUT_MS);
+    const heartbeat = setInterval(() => {
+      this.renewLease(job.id, workerId)
+        .then((held) => {
+          // Cancelled, or reaped and possibly claimed by another worker
+          if (!held) abortController.abort();
+        })
+        .catch((error) =>
+          console.error(`Failed to renew lease for job ${job.id}:`, error),
+        );
+    }, JOB_HEARTBEAT_INTERVAL_MS);
 
     try {
       console.log(
@@ -144,80 +497,189 @@ export class JobQueue {
       );
 
       console.log(`Starting to download repository for job ${job.id}`);
-      workingDirectory = await this.downloadRepository(jobData);
+      workingDirectory = await this.downloadRepository(
+        jobData,
+        abortController.signal,
+      );
       console.log(
         `Repository downloaded for job ${job.id} to ${workingDirectory}`,
       );
 
+      const projectDirectory = this.resolveProjectDirectory(
+        workingDirectory,
+        jobData.workingDirectory,
+      );
+
+      const projects = await ProjectDetector.detectProjects(projectDirectory);
+
       await this.updateJobProgress(
         job.id,
         20,
         "Repository downloaded, starting build...",
       );
 
-      console.log(`Starting build for job ${job.id}`);
-      const snapshot = await this.buildProject(job, workingDirectory);
-      console.log(`Build completed for job ${job.id}, snapshot created`);
+      if (projects.length > 0) {
+        console.log(
+          `Building ${projects.length} projects for job ${job.id}: ${projects.map((project) => project.path).join(", ")}`,
+        );
+        const results = await this.buildProjects(
+          job,
+          jobData,
+          projects,
+          abortController.signal,
+        );
 
-      await this.updateJobProgress(job.id, 90, "Finalizing deployment...");
+        if (results.every((result) => !result.snapshot.success)) {
+          throw new Error(`All ${results.length} projects failed to build`);
+        }
 
-      console.log(`Finalizing build for job ${job.id}`);
-      await this.finalizeBuild(job, jobData, snapshot);
-      console.log(`Build finalized for job ${job.id}`);
+        await this.beginFinalization(job.id, workerId, abortController);
+        await this.updateJobProgress(job.id, 90, "Finalizing deployment...");
 
-      await prisma.buildJob.update({
-        where: { id: job.id },
+        console.log(`Finalizing build for job ${job.id}`);
+        await this.finalizeProjectsBuild(job, jobData, results);
+        console.log(`Build finalized for job ${job.id}`);
+      } else {
+        console.log(`Starting build for job ${job.id} in ${projectDirectory}`);
+        const snapshot = await this.buildProject(
+          job,
+          projectDirectory,
+          abortController.signal,
+        );
+        console.log(`Build completed for job ${job.id}, snapshot created`);
+
+        if (abortController.signal.aborted) {
+          throw new Error("Build was cancelled");
+        }
+
+        // A build where no circuit could be generated fails the job, but the
+        // per-file errors are kept on the deployment for the dashboard
+        if (!snapshot.success) {
+          await prisma.deployment.update({
+            where: { id: jobData.deploymentId },
+            data: {
+              snapshotResult: snapshot,
+              totalCircuitFiles: snapshot.circuitFiles?.length || 0,
+            },
+          });
+          throw new Error(snapshot.error || "Snapshot generation failed");
+        }
+
+        await this.beginFinalization(job.id, workerId, abortController);
+        await this.updateJobProgress(job.id, 90, "Finalizing deployment...");
+
+        console.log(`Finalizing build for job ${job.id}`);
+        await this.finalizeBuild(job, jobData, snapshot);
+        console.log(`Build finalized for job ${job.id}`);
+      }
+
+      await prisma.buildJob.updateMany({
+        where: { id: job.id, status: "processing", workerId },
         data: {
           status: "completed",
           completedAt: new Date(),
           progress: 100,
+          leaseExpiresAt: null,
         },
       });
       console.log(`Job ${job.id} marked as completed in database`);
 
       console.log(`Job ${job.id} completed successfully`);
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
+      const errorMessage = timedOut
+        ? `Build timed out after ${Math.round(BUILD_JOB_TIMEOUT_MS / 60000)} minutes`
+        : error instanceof Error
+          ? error.message
+          : "Unknown error";
+
+      if (abortController.signal.aborted && !timedOut) {
+        const cancelledJob = await prisma.buildJob.findUnique({
+          where: { id: job.id },
+          select: { status: true, errorMessage: true },
+        });
+        if (cancelledJob?.status !== "cancelled") {
+          console.warn(
+            `Worker ${workerId} lost the lease on job ${job.id}, leaving it to its next attempt`,
+          );
+          return;
+        }
+
+        console.log(`Job ${job.id} was cancelled`);
+        await this.handleJobCancellation(
+          job,
+          jobData,
+          cancelledJob?.errorMessage || "Build was cancelled",
+        );
+        return;
+      }
+
       console.error(`Job ${job.id} failed:`, error);
 
+      const isTimeout = timedOut || errorMessage.includes("timed out");
+
       // Check if this is a non-retryable error
       const isNonRetryable =
+        isTimeout ||
         errorMessage.includes("404 Not Found") ||
         errorMessage.includes("403 Forbidden") ||
         errorMessage.includes("repository may be private") ||
-        errorMessage.includes("Archive URL may be invalid");
+        errorMessage.includes("Archive URL may be invalid") ||
+        errorMessage.includes("circuit files failed to build") ||
+        errorMessage.includes("projects failed to build") ||
+        errorMessage.includes(`Invalid ${PROJECT_CONFIG_FILE_NAME}`) ||
+        errorMessage.includes("Invalid package.json") ||
+        errorMessage.includes("Working directory");
 
-      await prisma.buildJob.update({
-        where: { id: job.id },
-        data: {
-          status: "failed",
-          completedAt: new Date(),
-          errorMessage,
-          retryCount: { increment: 1 },
-        },
-      });
+      const shouldRetry = !isNonRetryable && job.retryCount < JOB_MAX_RETRIES;
 
-      if (!isNonRetryable && job.retryCount < JOB_MAX_RETRIES) {
+      if (shouldRetry) {
         console.log(
           `Retrying job ${job.id} (attempt ${job.retryCount + 1}/${JOB_MAX_RETRIES})`,
         );
 
         // Add exponential backoff delay for retries
         const delayMs = Math.min(1000 * Math.pow(2, job.retryCount), 30000); // Max 30 seconds
-        console.log(`Retrying job ${job.id} in ${delayMs}ms`);
+        const nextAttemptAt = new Date(Date.now() + delayMs);
+        console.log(
+          `Retrying job ${job.id} at ${nextAttemptAt.toISOString()} (in ${delayMs}ms)`,
+        );
 
-        setTimeout(async () => {
-          await prisma.buildJob.update({
-            where: { id: job.id },
-            data: {
-              status: "queued",
-              startedAt: null,
-              completedAt: null,
-            },
-          });
-        }, delayMs);
+        // The schedule is persisted so the retry survives a process restart;
+        // workers will not claim the job before nextAttemptAt
+        // Conditional so a build cancelled or reclaimed meanwhile is left alone
+        await prisma.buildJob.updateMany({
+          where: { id: job.id, status: "processing", workerId },
+          data: {
+            status: "queued",
+            startedAt: null,
+            completedAt: null,
+            errorMessage,
+            retryCount: { increment: 1 },
+            nextAttemptAt,
+            workerId: null,
+            heartbeatAt: null,
+            leaseExpiresAt: null,
+          },
+        });
       } else {
+        const { count } = await prisma.buildJob.updateMany({
+          where: { id: job.id, status: "processing", workerId },
+          data: {
+            status: "failed",
+            completedAt: new Date(),
+            errorMessage,
+            retryCount: { increment: 1 },
+            nextAttemptAt: null,
+            leaseExpiresAt: null,
+          },
+        });
+        if (count === 0) {
+          console.log(
+            `Job ${job.id} is no longer held by ${workerId}, not failing it`,
+          );
+          return;
+        }
+
         if (isNonRetryable) {
           console.log(
             `Job ${job.id} failed with non-retryable error: ${errorMessage}`,
@@ -225,16 +687,28 @@ export class JobQueue {
         } else {
           console.log(`Job ${job.id} failed after ${JOB_MAX_RETRIES} retries`);
         }
-        await this.handleJobFailure(job, jobData, errorMessage);
+        await this.handleJobFailure(
+          job,
+          jobData,
+          errorMessage,
+          isTimeout ? "timed_out" : "failure",
+        );
       }
     } finally {
+      clearTimeout(jobTimeout);
+      clearInterval(heartbeat);
+      this.activeJobs.delete(job.id);
       if (workingDirectory) {
         await this.cleanupWorkspace(workingDirectory);
       }
     }
   }
 
-  private async downloadRepository(jobData: BuildJobData): Promise<string> {
+  /** Aborting the signal stops the download, without trying a fallback */
+  private async downloadRepository(
+    jobData: BuildJobData,
+    signal: AbortSignal,
+  ): Promise<string> {
     const workDir = path.join("/tmp", `build-${jobData.deploymentId}`);
 
     fs.mkdirSync(workDir, { recursive: true });
@@ -242,14 +716,15 @@ export class JobQueue {
     // On Vercel, prioritize archive download since git may not be available
     if (jobData.repoArchiveUrl) {
       try {
-        await this.downloadAndExtractArchive(jobData, workDir);
+        await this.downloadAndExtractArchive(jobData, workDir, signal);
         return workDir;
       } catch (error) {
+        signal.throwIfAborted();
         console.warn("Archive download failed:", error);
 
         // If archive fails, try alternative methods
         try {
-          await this.downloadWithFetch(jobData, workDir);
+          await this.downloadWithFetch(jobData, workDir, signal);
           return workDir;
         } catch (fetchError) {
           console.warn("Fetch download failed:", fetchError);
@@ -261,9 +736,10 @@ export class JobQueue {
     } else {
       // Fallback: try to use Node.js fetch for public repos
       try {
-        await this.downloadWithFetch(jobData, workDir);
+        await this.downloadWithFetch(jobData, workDir, signal);
         return workDir;
       } catch (error) {
+        signal.throwIfAborted();
         throw new Error(
           `No archive URL provided and fetch failed: ${error}. Please ensure the repository is accessible.`,
         );
@@ -274,6 +750,7 @@ export class JobQueue {
   private async downloadAndExtractArchive(
     jobData: BuildJobData,
     workDir: string,
+    signal: AbortSignal,
   ): Promise<void> {
     const archivePath = path.join(
       "/tmp",
@@ -293,6 +770,7 @@ export class JobQueue {
         Authorization: `Bearer ${jobData.githubToken}`,
         "User-Agent": "tscircuit-deploy/1.0.0",
       },
+      signal,
     });
 
     if (!response.ok) {
@@ -336,6 +814,7 @@ export class JobQueue {
   private async downloadWithFetch(
     jobData: BuildJobData,
     workDir: string,
+    signal: AbortSignal,
   ): Promise<void> {
     // This is a simpler fallback that downloads the archive directly
     const archiveUrl = `https://api.github.com/repos/${jobData.owner}/${jobData.repo}/tarball/${jobData.ref}`;
@@ -350,6 +829,7 @@ export class JobQueue {
         Authorization: `Bearer ${jobData.githubToken}`,
         "User-Agent": "tscircuit-deploy/1.0.0",
       },
+      signal,
     });
 
     if (!response.ok) {
@@ -373,26 +853,164 @@ export class JobQueue {
         repoArchiveUrl: archiveUrl,
       },
       workDir,
+      signal,
     );
   }
 
-  private async buildProject(job: BuildJob, workingDirectory: string) {
+  /**
+   * Resolves the action's working-directory inside the extracted repository,
+   * refusing paths that escape it.
+   */
+  private resolveProjectDirectory(
+    repositoryDirectory: string,
+    workingDirectory: string = ".",
+  ): string {
+    const projectDirectory = path.resolve(
+      repositoryDirectory,
+      workingDirectory,
+    );
+    const relativePath = path.relative(repositoryDirectory, projectDirectory);
+
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      throw new Error(
+        `Working directory ${workingDirectory} is outside the repository`,
+      );
+    }
+
+    if (
+      !fs.existsSync(projectDirectory) ||
+      !fs.statSync(projectDirectory).isDirectory()
+    ) {
+      throw new Error(
+        `Working directory ${workingDirectory} not found in repository`,
+      );
+    }
+
+    return projectDirectory;
+  }
+
+  private async buildProject(
+    job: BuildJob,
+    workingDirectory: string,
+    signal: AbortSignal,
+    progressRange: { start: number; span: number } = { start: 20, span: 70 },
+  ) {
+    const jobData = job.metadata as unknown as BuildJobData;
     const processor = new SnapshotProcessor(
       workingDirectory,
       (progress: BuildProgress) => {
-        const overallProgress = Math.round(progress.progress * 0.7 + 20);
+        const overallProgress = Math.round(
+          progressRange.start + (progress.progress * progressRange.span) / 100,
+        );
         this.updateJobProgress(job.id, overallProgress, progress.message).catch(
           console.error,
         );
       },
+      {
+        signal,
+        findCachedCircuitJson: (cacheKey) =>
+          this.findCachedCircuitJson(jobData, cacheKey),
+      },
     );
 
     return await processor.generateSnapshot(job.deploymentId);
   }
 
+  /**
+   * Finds the newest artifact of the same repository built from identical
+   * sources, so unchanged boards are copied instead of rebuilt.
+   */
+  private async findCachedCircuitJson(jobData: BuildJobData, cacheKey: string) {
+    const artifact = await prisma.buildArtifact.findFirst({
+      where: {
+        cacheKey,
+        kind: "circuit_json",
+        circuitJson: { not: Prisma.DbNull },
+        deployment: { owner: jobData.owner, repo: jobData.repo },
+      },
+      orderBy: { createdAt: "desc" },
+      select: { circuitJson: true },
+    });
+
+    return artifact?.circuitJson ?? null;
+  }
+
+  /**
+   * Builds each project of a monorepo into its own child deployment. The
+   * children are created up front so the dashboard lists them while pending.
+   */
+  private async buildProjects(
+    job: BuildJob,
+    jobData: BuildJobData,
+    projects: DeployProject[],
+    signal: AbortSignal,
+  ): Promise<ProjectBuildResult[]> {
+    const parent = await prisma.deployment.findUniqueOrThrow({
+      where: { id: jobData.deploymentId },
+    });
+
+    // A retried job starts over with fresh project deployments
+    await prisma.deployment.deleteMany({ where: { parentId: parent.id } });
+
+    const deploymentIds: string[] = [];
+    for (const project of projects) {
+      const child = await prisma.deployment.create({
+        data: {
+          id: ulid(),
+          owner: parent.owner,
+          repo: parent.repo,
+          commitSha: parent.commitSha,
+          meta: parent.meta,
+          metaType: parent.metaType,
+          status: "pending",
+          workingDirectory: path.posix.join(
+            parent.workingDirectory,
+            project.path,
+          ),
+          parentId: parent.id,
+          projectName: project.name,
+        },
+      });
+      deploymentIds.push(child.id);
+    }
+
+    const results: ProjectBuildResult[] = [];
+    const span = 70 / projects.length;
+    for (const [index, project] of projects.entries()) {
+      console.log(`Building project ${project.name} for job ${job.id}`);
+      const snapshot = await this.buildProject(job, project.directory, signal, {
+        start: 20 + index * span,
+        span,
+      });
+
+      if (signal.aborted) {
+        throw new Error("Build was cancelled");
+      }
+
+      // Failed projects are recorded right away in case the whole job fails
+      if (!snapshot.success) {
+        await prisma.deployment.update({
+          where: { id: deploymentIds[index] },
+          data: {
+            snapshotResult: snapshot,
+            status: "error",
+            errorMessage: snapshot.error || "Snapshot generation failed",
+            buildCompletedAt: new Date(),
+            totalCircuitFiles: snapshot.circuitFiles?.length || 0,
+          },
+        });
+      }
+
+      results.push({ project, deploymentId: deploymentIds[index], snapshot });
+    }
+
+    return results;
+  }
+
   private async saveBuildArtifacts(
     job: BuildJob,
     snapshot: SnapshotResult,
+    deploymentId: string = job.deploymentId,
   ): Promise<void> {
     try {
       if (
@@ -404,31 +1022,117 @@ export class JobQueue {
         return;
       }
 
+      const builtFiles = snapshot.circuitFiles.filter(
+        (file) => file.status !== "error",
+      );
+
       console.log(
-        `Saving ${snapshot.circuitFiles.length} circuit files as build artifacts`,
+        `Saving ${builtFiles.length} circuit files as build artifacts`,
       );
 
-      const artifacts = snapshot.circuitFiles.map(
-        (file: any, index: number) => {
-          const circuitJsonString = JSON.stringify(file.circuitJson, null, 2);
-          const fileSize = Buffer.byteLength(circuitJsonString, "utf8");
+      const artifacts: Prisma.BuildArtifactCreateManyInput[] = [];
+
+      for (const [index, file] of builtFiles.entries()) {
+        const circuitJsonString = JSON.stringify(file.circuitJson, null, 2);
+        const fileSize = Buffer.byteLength(circuitJsonString, "utf8");
+        const fileName = file.name || `circuit-${index}.json`;
+        const filePath = file.path || `circuit-${index}.json`;
+        const baseName = getArtifactBaseName(fileName);
+        const bomCsv = Buffer.from(
+          BomGenerator.toCsv(BomGenerator.generate(file.circuitJson)),
+          "utf8",
+        );
+        const pickAndPlaceCsv = Buffer.from(
+          PickAndPlaceGenerator.toCsv(
+            PickAndPlaceGenerator.generate(file.circuitJson),
+          ),
+          "utf8",
+        );
 
-          return {
+        artifacts.push(
+          {
             jobId: job.id,
-            deploymentId: job.deploymentId,
-            fileName: file.name || `circuit-${index}.json`,
-            filePath: file.path || `circuit-${index}.json`,
+            deploymentId,
+            fileName,
+            filePath,
             fileSize,
             circuitJson: file.circuitJson,
-          };
-        },
-      );
+            cacheKey: file.cacheKey,
+          },
+          {
+            jobId: job.id,
+            deploymentId,
+            fileName: `${baseName}.bom.csv`,
+            filePath,
+            fileSize: bomCsv.length,
+            kind: "bom",
+            content: bomCsv,
+            contentType: "text/csv",
+          },
+          {
+            jobId: job.id,
+            deploymentId,
+            fileName: `${baseName}.cpl.csv`,
+            filePath,
+            fileSize: pickAndPlaceCsv.length,
+            kind: "pick_and_place",
+            content: pickAndPlaceCsv,
+            contentType: "text/csv",
+          },
+        );
+
+        // Boards without a PCB layout still get their other artifacts
+        try {
+          const fabricationZip = await FabricationPackage.build(
+            file.circuitJson,
+            baseName,
+          );
+          artifacts.push({
+            jobId: job.id,
+            deploymentId,
+            fileName: `${baseName}.fabrication.zip`,
+            filePath,
+            fileSize: fabricationZip.length,
+            kind: "fabrication",
+            content: fabricationZip,
+            contentType: "application/zip",
+          });
+        } catch (error) {
+          console.warn(
+            `⚠️ Failed to generate fabrication files for ${filePath}:`,
+            error,
+          );
+        }
+
+        try {
+          const glb = await GlbExporter.export(file.circuitJson);
+          artifacts.push({
+            jobId: job.id,
+            deploymentId,
+            fileName: `${baseName}.glb`,
+            filePath,
+            fileSize: glb.length,
+            kind: "glb",
+            content: glb,
+            contentType: "model/gltf-binary",
+          });
+        } catch (error) {
+          console.warn(
+            `⚠️ Failed to generate 3D model for ${filePath}:`,
+            error,
+          );
+        }
+      }
 
       // Save all artifacts to database
       if (artifacts.length > 0) {
-        await prisma.buildArtifact.createMany({ data: artifacts });
+        // A retried job keeps the artifacts its earlier attempt saved
+        await prisma.buildArtifact.createMany({
+          data: artifacts,
+          skipDuplicates: true,
+        });
         console.log(
-          `✅ Saved ${artifacts.length} circuit files as build artifacts`,
+          `✅ Saved ${artifacts.length} build artifacts for ${builtFiles.length} circuit files`,
         );
       }
     } catch (error) {
@@ -459,6 +1163,15 @@ export class JobQueue {
       );
     }
 
+    const failedFiles = snapshot.circuitFiles.filter(
+      (file) => file.status === "error",
+    );
+    const builtCount = snapshot.circuitFiles.length - failedFiles.length;
+    const isPartial = failedFiles.length > 0;
+    const partialMessage = isPartial
+      ? `${failedFiles.length} of ${snapshot.circuitFiles.length} circuit files failed to build`
+      : null;
+
     // Update deployment in database
     console.log(
       `Updating deployment in database for deployment ID: ${jobData.deploymentId}`,
@@ -469,17 +1182,17 @@ export class JobQueue {
         snapshotResult: snapshot,
         buildDuration: totalTime,
         buildCompletedAt: new Date(),
-        status: snapshot.success ? "ready" : "error",
+        status: isPartial ? "partial" : "ready",
+        errorMessage: partialMessage,
         totalCircuitFiles: snapshot.circuitFiles?.length || 0,
       },
     });
 
-    // Update job with error message if snapshot failed
-    if (!snapshot.success && snapshot.error) {
+    if (partialMessage) {
       await prisma.buildJob.update({
         where: { id: job.id },
         data: {
-          errorMessage: snapshot.error,
+          errorMessage: partialMessage,
         },
       });
     }
@@ -494,7 +1207,9 @@ export class JobQueue {
         repo: jobData.repo,
         deploymentId: jobData.deploymentId_github,
         state: "success",
-        description: `Successfully built ${snapshot.circuitFiles.length} circuit${snapshot.circuitFiles.length === 1 ? "" : "s"} in ${totalTime}s`,
+        description: isPartial
+          ? `Built ${builtCount} of ${snapshot.circuitFiles.length} circuits in ${totalTime}s, ${failedFiles.length} failed`
+          : `Successfully built ${snapshot.circuitFiles.length} circuit${snapshot.circuitFiles.length === 1 ? "" : "s"} in ${totalTime}s`,
         logUrl: `${jobData.context.serverUrl}/${jobData.owner}/${jobData.repo}/actions/runs/${jobData.context.runId}`,
       });
       console.log(
@@ -512,7 +1227,7 @@ export class JobQueue {
             previewUrl: `${DEPLOY_URL}/deployments/${jobData.deploymentId_github}`,
             buildTime: `${totalTime}s`,
             circuitCount: snapshot.circuitFiles.length,
-            status: "ready",
+            status: isPartial ? "partial" : "ready",
             snapshotResult: snapshot,
           };
 
@@ -539,17 +1254,35 @@ export class JobQueue {
           console.log(
             `Updating check run for deployment ID: ${jobData.deploymentId}`,
           );
+          const failedChecksTitle = getFailedChecksTitle([snapshot]);
+          const output = isPartial
+            ? {
+                title: "⚠️ Preview Deploy Partially Ready",
+                summary: `Built ${builtCount} of ${snapshot.circuitFiles.length} circuits in ${totalTime}s, ${failedFiles.length} failed`,
+                text: `## 🔗 Preview URL\n${DEPLOY_URL}/deployments/${jobData.deploymentId_github}\n\n## ❌ Failed Circuits\n${failedFiles.map((file) => `- \`${file.path}\`: ${file.error}`).join("\n")}\n\n## 📊 Build Details\n- Circuits: ${builtCount}/${snapshot.circuitFiles.length}\n- Build time: ${totalTime}s\n- Status: Partial`,
+              }
+            : {
+                title: "✅ Preview Deploy Ready",
+                summary: `Successfully built ${snapshot.circuitFiles.length} circuit${snapshot.circuitFiles.length === 1 ? "" : "s"} in ${totalTime}s`,
+                text: `## 🔗 Preview URL\n${DEPLOY_URL}/deployments/${jobData.deploymentId_github}\n\n## 📊 Build Details\n- Circuits: ${snapshot.circuitFiles.length}\n- Build time: ${totalTime}s\n- Status: Ready`,
+              };
+
           await userOctokit.updateCheckRun({
             owner: jobData.owner,
             repo: jobData.repo,
             checkRunId: jobData.checkRunId,
             status: "completed",
-            conclusion: "success",
+            conclusion: failedChecksTitle
+              ? "failure"
+              : isPartial
+                ? "neutral"
+                : "success",
             detailsUrl: `${DEPLOY_URL}/deployments/${jobData.deploymentId_github}`,
             output: {
-              title: "✅ Preview Deploy Ready",
-              summary: `Successfully built ${snapshot.circuitFiles.length} circuit${snapshot.circuitFiles.length === 1 ? "" : "s"} in ${totalTime}s`,
-              text: `## 🔗 Preview URL\n${DEPLOY_URL}/deployments/${jobData.deploymentId_github}\n\n## 📊 Build Details\n- Circuits: ${snapshot.circuitFiles.length}\n- Build time: ${totalTime}s\n- Status: Ready`,
+              ...output,
+              title: failedChecksTitle ?? output.title,
+              text: output.text + renderCheckReports([snapshot]),
+              annotations: CircuitDiagnostics.toAnnotations(snapshot),
             },
           });
 
@@ -561,51 +1294,234 @@ export class JobQueue {
         }
       }
 
-      // Handle release creation for push events
-      if (jobData.eventType === "push" && jobData.create_release) {
-        try {
+      // Handle release creation for push events, never for partial builds
+      if (
+        jobData.eventType === "push" &&
+        jobData.create_release &&
+        !isPartial
+      ) {
+        await this.createRelease(jobData, userOctokit);
+      }
+    }
+  }
+
+  private async finalizeProjectsBuild(
+    job: BuildJob,
+    jobData: BuildJobData,
+    results: ProjectBuildResult[],
+  ) {
+    console.log(`Finalizing ${results.length} projects for job: ${job.id}`);
+    const userOctokit = new GitHubService({ token: jobData.githubToken });
+    const botOctokit = new GitHubService({ token: env.GITHUB_BOT_TOKEN });
+
+    const totalTime = Math.round(
+      (Date.now() - new Date(job.startedAt!).getTime()) / 1000,
+    );
+    const previewUrl = `${DEPLOY_URL}/deployments/${jobData.deploymentId_github}`;
+
+    const projectComments: ProjectCommentData[] = [];
+    for (const { project, deploymentId, snapshot } of results) {
+      const failedCount = snapshot.circuitFiles.filter(
+        (file) => file.status === "error",
+      ).length;
+      const status = !snapshot.success
+        ? "error"
+        : failedCount > 0
+          ? "partial"
+          : "ready";
+
+      if (snapshot.success) {
+        await this.saveBuildArtifacts(job, snapshot, deploymentId);
+      }
+
+      await prisma.deployment.update({
+        where: { id: deploymentId },
+        data: {
+          snapshotResult: snapshot,
+          buildDuration: snapshot.buildTime,
+          buildCompletedAt: new Date(),
+          status,
+          errorMessage:
+            snapshot.error ||
+            (failedCount > 0
+              ? `${failedCount} of ${snapshot.circuitFiles.length} circuit files failed to build`
+              : null),
+          totalCircuitFiles: snapshot.circuitFiles?.length || 0,
+        },
+      });
+
+      projectComments.push({
+        name: project.name,
+        path: project.path,
+        deploymentId,
+        previewUrl: `${DEPLOY_URL}/deployment/${deploymentId}`,
+        status,
+        snapshotResult: snapshot,
+      });
+    }
+
+    const incomplete = projectComments.filter(
+      (project) => project.status !== "ready",
+    );
+    const isPartial = incomplete.length > 0;
+    const totalCircuits = projectComments.reduce(
+      (sum, project) => sum + project.snapshotResult.circuitFiles.length,
+      0,
+    );
+    const partialMessage = isPartial
+      ? `${incomplete.length} of ${projectComments.length} projects did not fully build`
+      : null;
+
+    await prisma.deployment.update({
+      where: { id: jobData.deploymentId },
+      data: {
+        buildDuration: totalTime,
+        buildCompletedAt: new Date(),
+        status: isPartial ? "partial" : "ready",
+        errorMessage: partialMessage,
+        totalCircuitFiles: totalCircuits,
+      },
+    });
+
+    if (partialMessage) {
+      await prisma.buildJob.update({
+        where: { id: job.id },
+        data: {
+          errorMessage: partialMessage,
+        },
+      });
+    }
+
+    const description = isPartial
+      ? `Built ${projectComments.length - incomplete.length} of ${projectComments.length} projects in ${totalTime}s`
+      : `Successfully built ${projectComments.length} projects (${totalCircuits} circuits) in ${totalTime}s`;
+
+    await userOctokit.createDeploymentStatus({
+      owner: jobData.owner,
+      repo: jobData.repo,
+      deploymentId: jobData.deploymentId_github,
+      state: "success",
+      description,
+      logUrl: `${jobData.context.serverUrl}/${jobData.owner}/${jobData.repo}/actions/runs/${jobData.context.runId}`,
+    });
+
+    if (jobData.eventType === "pull_request") {
+      try {
+        const prComment = generateProjectsPRComment({
+          deploymentId: jobData.deploymentId,
+          previewUrl,
+          buildTime: `${totalTime}s`,
+          projects: projectComments,
+        });
+
+        await botOctokit.createPRComment({
+          owner: jobData.owner,
+          repo: jobData.repo,
+          issueNumber: Number(jobData.meta),
+          body: prComment,
+        });
+
+        console.log(`PR comment posted for deployment ${jobData.deploymentId}`);
+      } catch (error) {
+        console.error("Failed to post PR comment:", error);
+      }
+    }
+
+    if (jobData.checkRunId) {
+      try {
+        const projectRows = projectComments
+          .map(
+            (project) =>
+              `| ${project.name} | ${project.status} | ${project.snapshotResult.circuitFiles.filter((file) => file.status !== "error").length}/${project.snapshotResult.circuitFiles.length} | ${project.previewUrl} |`,
+          )
+          .join("\n");
+        const snapshots = projectComments.map(
+          (project) => project.snapshotResult,
+        );
+        const failedChecksTitle = getFailedChecksTitle(snapshots);
+
+        await userOctokit.updateCheckRun({
+          owner: jobData.owner,
+          repo: jobData.repo,
+          checkRunId: jobData.checkRunId,
+          status: "completed",
+          conclusion: failedChecksTitle
+            ? "failure"
+            : isPartial
+              ? "neutral"
+              : "success",
+          detailsUrl: previewUrl,
+          output: {
+            title:
+              failedChecksTitle ??
+              (isPartial
+                ? "⚠️ Preview Deploy Partially Ready"
+                : "✅ Preview Deploy Ready"),
+            summary: description,
+            text: `## 📦 Projects\n| Project | Status | Circuits | Preview |\n| --- | --- | --- | --- |\n${projectRows}${renderCheckReports(snapshots)}\n\n## 📊 Build Details\n- Build time: ${totalTime}s`,
+            annotations: snapshots.flatMap((snapshot) =>
+              CircuitDiagnostics.toAnnotations(snapshot),
+            ),
+          },
+        });
+
+        console.log(`Check run updated for deployment ${jobData.deploymentId}`);
+      } catch (error) {
+        console.error("Failed to update check run:", error);
+      }
+    }
+
+    // Handle release creation for push events, never for partial builds
+    if (jobData.eventType === "push" && jobData.create_release && !isPartial) {
+      await this.createRelease(jobData, userOctokit);
+    }
+  }
+
+  private async createRelease(
+    jobData: BuildJobData,
+    userOctokit: GitHubService,
+  ) {
+    try {
+      console.log(
+        `Handling release creation for deployment ID: ${jobData.deploymentId}`,
+      );
+      const branch = jobData.ref.replace("refs/heads/", "");
+      if (branch === "main" || branch === "master") {
+        const { tag: lastTag } = await userOctokit.getLatestTag({
+          owner: jobData.owner,
+          repo: jobData.repo,
+        });
+
+        const commitMessage = jobData.context?.message || "";
+        const packageVersion = userOctokit.generateNextVersion(
+          lastTag,
+          commitMessage,
+        );
+
+        const { tagSha } = await userOctokit.createTag({
+          owner: jobData.owner,
+          repo: jobData.repo,
+          tag: `v${packageVersion}`,
+          message: `Release v${packageVersion}`,
+          object: jobData.ref.replace("refs/heads/", ""),
+          type: "commit",
+        });
+
+        if (tagSha) {
+          await userOctokit.createRef({
+            owner: jobData.owner,
+            repo: jobData.repo,
+            ref: `refs/tags/v${packageVersion}`,
+            sha: tagSha,
+          });
+
           console.log(
-            `Handling release creation for deployment ID: ${jobData.deploymentId}`,
+            `Release v${packageVersion} created for deployment ${jobData.deploymentId}`,
           );
-          const branch = jobData.ref.replace("refs/heads/", "");
-          if (branch === "main" || branch === "master") {
-            const { tag: lastTag } = await userOctokit.getLatestTag({
-              owner: jobData.owner,
-              repo: jobData.repo,
-            });
-
-            const commitMessage = jobData.context?.message || "";
-            const packageVersion = userOctokit.generateNextVersion(
-              lastTag,
-              commitMessage,
-            );
-
-            const { tagSha } = await userOctokit.createTag({
-              owner: jobData.owner,
-              repo: jobData.repo,
-              tag: `v${packageVersion}`,
-              message: `Release v${packageVersion}`,
-              object: jobData.ref.replace("refs/heads/", ""),
-              type: "commit",
-            });
-
-            if (tagSha) {
-              await userOctokit.createRef({
-                owner: jobData.owner,
-                repo: jobData.repo,
-                ref: `refs/tags/v${packageVersion}`,
-                sha: tagSha,
-              });
-
-              console.log(
-                `Release v${packageVersion} created for deployment ${jobData.deploymentId}`,
-              );
-            }
-          }
-        } catch (error) {
-          console.error("Error creating release:", error);
         }
       }
+    } catch (error) {
+      console.error("Error creating release:", error);
     }
   }
 
@@ -613,6 +1529,7 @@ export class JobQueue {
     job: BuildJob,
     jobData: BuildJobData,
     errorMessage: string,
+    conclusion: "failure" | "timed_out" = "failure",
   ) {
     const userOctokit = new GitHubService({ token: jobData.githubToken });
     const botOctokit = new GitHubService({ token: env.GITHUB_BOT_TOKEN });
@@ -622,6 +1539,15 @@ export class JobQueue {
       where: { id: jobData.deploymentId },
       data: {
         status: "error",
+        errorMessage,
+        buildCompletedAt: new Date(),
+      },
+    });
+    await prisma.deployment.updateMany({
+      where: { parentId: jobData.deploymentId, status: "pending" },
+      data: {
+        status: "error",
+        errorMessage,
         buildCompletedAt: new Date(),
       },
     });
@@ -671,9 +1597,12 @@ Please check your circuit files and try again.
           repo: jobData.repo,
           checkRunId: jobData.checkRunId,
           status: "completed",
-          conclusion: "failure",
+          conclusion,
           output: {
-            title: "❌ Build Failed",
+            title:
+              conclusion === "timed_out"
+                ? "⏱️ Build Timed Out"
+                : "❌ Build Failed",
             summary: `Build failed: ${errorMessage}`,
           },
         });
@@ -687,6 +1616,66 @@ Please check your circuit files and try again.
     }
   }
 
+  private async handleJobCancellation(
+    job: BuildJob,
+    jobData: BuildJobData,
+    reason: string,
+  ) {
+    const userOctokit = new GitHubService({ token: jobData.githubToken });
+
+    await prisma.deployment.update({
+      where: { id: jobData.deploymentId },
+      data: {
+        status: "cancelled",
+        buildCompletedAt: new Date(),
+      },
+    });
+    await prisma.deployment.updateMany({
+      where: { parentId: jobData.deploymentId, status: "pending" },
+      data: {
+        status: "cancelled",
+        buildCompletedAt: new Date(),
+      },
+    });
+
+    try {
+      await userOctokit.createDeploymentStatus({
+        owner: jobData.owner,
+        repo: jobData.repo,
+        deploymentId: jobData.deploymentId_github,
+        state: "inactive",
+        description: `Build cancelled: ${reason}`,
+        logUrl: `${jobData.context.serverUrl}/${jobData.owner}/${jobData.repo}/actions/runs/${jobData.context.runId}`,
+      });
+    } catch (error) {
+      console.error("Failed to update deployment status:", error);
+    }
+
+    if (jobData.checkRunId) {
+      try {
+        await userOctokit.updateCheckRun({
+          owner: jobData.owner,
+          repo: jobData.repo,
+          checkRunId: jobData.checkRunId,
+          status: "completed",
+          conclusion: "cancelled",
+          output: {
+            title: "🚫 Build Cancelled",
+            summary: reason,
+          },
+        });
+
+        console.log(
+          `Check run updated with cancellation for deployment ${jobData.deploymentId}`,
+        );
+      } catch (error) {
+        console.error("Failed to update check run with cancellation:", error);
+      }
+    }
+
+    console.log(`Job ${job.id} cancellation reported: ${reason}`);
+  }
+
   private async updateJobProgress(
     jobId: string,
     progress: number,
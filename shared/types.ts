@@ -1,9 +1,158 @@
 import { z } from "zod";
+import {
+  DEFAULT_ASSET_EXTENSIONS,
+  DEFAULT_DRC_MIN_CLEARANCE_MM,
+  DEFAULT_DRC_MIN_HOLE_TO_EDGE_MM,
+  DEFAULT_DRC_MIN_TRACE_WIDTH_MM,
+} from "./constants";
+
+export const CircuitViewSchema = z.enum(["pcb", "schematic", "3d"]);
+
+export type CircuitView = z.infer<typeof CircuitViewSchema>;
+
+export const ProjectConfigSchema = z
+  .object({
+    include: z
+      .array(z.string())
+      .default(["**/*.circuit.tsx", "**/*.circuit.ts", "**/*.board.tsx"]),
+    exclude: z
+      .array(z.string())
+      .default(["**/node_modules/**", "**/dist/**", "**/build/**"]),
+    entrypoints: z.array(z.string()).optional(),
+    projects: z
+      .array(
+        z.object({
+          name: z.string().optional(),
+          path: z.string(),
+        }),
+      )
+      .optional(),
+    views: z.array(CircuitViewSchema).default(["pcb", "schematic", "3d"]),
+    boards: z
+      .record(
+        z.string(),
+        z.object({
+          displayName: z.string().optional(),
+        }),
+      )
+      .default({}),
+    build: z
+      .object({
+        renderTimeoutMs: z.number().int().positive().optional(),
+        concurrency: z.number().int().min(1).optional(),
+      })
+      .default({}),
+    assets: z
+      .object({
+        extensions: z
+          .array(z.string().startsWith("."))
+          .default(DEFAULT_ASSET_EXTENSIONS),
+        maxSizeBytes: z.number().int().positive().optional(),
+      })
+      .default({}),
+    drc: z
+      .object({
+        enabled: z.boolean().default(true),
+        // All distances in mm
+        minTraceWidth: z
+          .number()
+          .positive()
+          .default(DEFAULT_DRC_MIN_TRACE_WIDTH_MM),
+        minClearance: z
+          .number()
+          .positive()
+          .default(DEFAULT_DRC_MIN_CLEARANCE_MM),
+        minHoleToEdge: z
+          .number()
+          .min(0)
+          .default(DEFAULT_DRC_MIN_HOLE_TO_EDGE_MM),
+      })
+      .default({}),
+    erc: z
+      .object({
+        enabled: z.boolean().default(true),
+      })
+      .default({}),
+    checks: z
+      .object({
+        // Fail the GitHub check when circuit JSON contains error elements
+        failOnCircuitErrors: z.boolean().default(false),
+        failOnDrcViolations: z.boolean().default(false),
+      })
+      .default({}),
+  })
+  .strict();
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+export const CircuitDiagnosticSchema = z.object({
+  // Circuit JSON element type, e.g. pcb_trace_error
+  type: z.string(),
+  message: z.string(),
+  componentName: z.string().optional(),
+});
+
+export type CircuitDiagnostic = z.infer<typeof CircuitDiagnosticSchema>;
+
+export const DrcRuleSchema = z.enum([
+  "trace_width",
+  "clearance",
+  "hole_to_edge",
+  "component_outside_board",
+]);
+
+export type DrcRule = z.infer<typeof DrcRuleSchema>;
+
+export const DrcViolationSchema = z.object({
+  rule: DrcRuleSchema,
+  message: z.string(),
+  // Measured and required distance in mm, where the rule has one
+  measured: z.number().optional(),
+  required: z.number().optional(),
+  location: z.object({ x: z.number(), y: z.number() }).optional(),
+});
+
+export type DrcViolation = z.infer<typeof DrcViolationSchema>;
+
+export const ErcIssueSchema = z.object({
+  rule: z.enum([
+    "unconnected_pin",
+    "single_connection_net",
+    "power_net_without_source",
+    "shorted_nets",
+  ]),
+  severity: z.enum(["error", "warning"]),
+  message: z.string(),
+  componentName: z.string().optional(),
+  netNames: z.array(z.string()).optional(),
+});
+
+export type ErcIssue = z.infer<typeof ErcIssueSchema>;
+
+export const ErcReportSchema = z.object({
+  // Path of the circuit file, matching CircuitFile.path
+  path: z.string(),
+  issues: z.array(ErcIssueSchema),
+});
+
+export type ErcReport = z.infer<typeof ErcReportSchema>;
 
 export const CircuitFileSchema = z.object({
   path: z.string(),
   name: z.string(),
+  displayName: z.string().optional(),
   circuitJson: z.any(),
+  status: z.enum(["success", "error"]),
+  error: z.string().optional(),
+  // Hash of the board's sources, dependencies and engine version
+  cacheKey: z.string().optional(),
+  cached: z.boolean().optional(),
+  diagnostics: z.array(CircuitDiagnosticSchema).optional(),
+  drc: z
+    .object({
+      violations: z.array(DrcViolationSchema),
+    })
+    .optional(),
   metadata: z
     .object({
       fileSize: z.number(),
@@ -18,11 +167,20 @@ export const SnapshotResultSchema = z.object({
   buildTime: z.number(),
   success: z.boolean(),
   error: z.string().optional(),
+  warnings: z.array(z.string()).optional(),
+  config: ProjectConfigSchema.optional(),
+  // Electrical rule check of every successfully built circuit file
+  erc: z.array(ErcReportSchema).optional(),
   metadata: z
     .object({
       totalFiles: z.number(),
+      failedFiles: z.number().optional(),
+      cachedFiles: z.number().optional(),
       repositorySize: z.number(),
       buildEnvironment: z.string(),
+      // tscircuit version the circuits were evaluated with
+      engineVersion: z.string().optional(),
+      dependencies: z.record(z.string(), z.string()).optional(),
     })
     .optional(),
 });
@@ -71,6 +229,13 @@ export const SimpleBuildRequestSchema = z.object({
   checkRunId: z.number().optional(),
   create_release: z.boolean().default(false).optional(),
   repoArchiveUrl: z.string().optional(),
+  workingDirectory: z
+    .string()
+    .refine(
+      (dir) => !dir.startsWith("/") && !dir.split(/[\\/]/).includes(".."),
+      "Working directory must be a path inside the repository",
+    )
+    .optional(),
 });
 
 export type SimpleBuildRequest = z.infer<typeof SimpleBuildRequestSchema>;
@@ -83,6 +248,8 @@ export const BuildStatusSchema = z.object({
   startedAt: z.string().optional(),
   completedAt: z.string().optional(),
   errorMessage: z.string().optional(),
+  retryCount: z.number().optional(),
+  nextAttemptAt: z.string().optional(),
   estimatedDuration: z.number().optional(),
   queuePosition: z.number().optional(),
 });
@@ -94,13 +261,24 @@ export const DeploymentViewSchema = z.object({
   owner: z.string(),
   repo: z.string(),
   commitSha: z.string(),
-  status: z.enum(["skipped", "ready", "error", "pending"]),
+  status: z.enum([
+    "skipped",
+    "ready",
+    "partial",
+    "error",
+    "pending",
+    "cancelled",
+  ]),
   metaType: z.enum(["push", "pull_request"]),
   meta: z.string(),
   buildDuration: z.number().nullable(),
   totalCircuitFiles: z.number(),
   createdAt: z.string(),
   buildCompletedAt: z.string().nullable(),
+  errorMessage: z.string().nullable().optional(),
+  workingDirectory: z.string().optional(),
+  parentId: z.string().nullable().optional(),
+  projectName: z.string().nullable().optional(),
   artifactCount: z.number().optional(),
   hasArtifacts: z.boolean().optional(),
 });
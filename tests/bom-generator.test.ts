@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { BomGenerator } from "../utils/bom-generator";
+import { voltageDivider } from "./fixtures/circuit-json";
+
+describe("BomGenerator", () => {
+  test("groups identical parts and leaves out unplaced components", () => {
+    expect(BomGenerator.generate(voltageDivider())).toEqual([
+      {
+        designators: ["C1"],
+        quantity: 1,
+        value: "100nF",
+        footprint: "0402",
+        ftype: "simple_capacitor",
+      },
+      {
+        designators: ["R1", "R2"],
+        quantity: 2,
+        value: "1kΩ",
+        footprint: "0402",
+        ftype: "simple_resistor",
+      },
+    ]);
+  });
+
+  test("writes one CSV row per line with quoted designator lists", () => {
+    const csv = BomGenerator.toCsv(BomGenerator.generate(voltageDivider()));
+
+    expect(csv.split("\n")).toEqual([
+      "Designator,Quantity,Value,Footprint,Manufacturer Part Number,Supplier Part Numbers",
+      "C1,1,100nF,0402,,",
+      '"R1, R2",2,1kΩ,0402,,',
+      "",
+    ]);
+  });
+
+  test("returns no lines for anything but a circuit JSON array", () => {
+    expect(BomGenerator.generate({})).toEqual([]);
+  });
+});
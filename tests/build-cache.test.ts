@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { BuildCache } from "../utils/build-cache";
+import { ProjectFileIndex } from "../utils/project-file-index";
+
+describe("BuildCache.computeCacheKey", () => {
+  let root: string;
+
+  const write = (projectPath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, projectPath)), {
+      recursive: true,
+    });
+    fs.writeFileSync(path.join(root, projectPath), content);
+  };
+
+  const keyOf = (
+    entry = "index.circuit.tsx",
+    options: {
+      engineVersion?: string;
+      dependencies?: Record<string, string>;
+    } = {},
+  ) => {
+    const index = ProjectFileIndex.build(root);
+    index.addFiles({ "node_modules/left-pad/package.json": "{}" });
+    return BuildCache.computeCacheKey(index, path.join(root, entry), {
+      engineVersion: options.engineVersion ?? "0.0.500",
+      dependencies: options.dependencies ?? { "left-pad": "1.3.0" },
+    });
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "build-cache-"));
+    write(
+      "index.circuit.tsx",
+      'import { Part } from "./lib/part"\nimport pad from "left-pad"\nimport { useState } from "react"\nexport default () => <board><Part /></board>\n',
+    );
+    write("lib/part.tsx", "export const Part = () => <resistor />\n");
+    write("other.circuit.tsx", "export default () => <board />\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("is stable for unchanged sources", () => {
+    expect(keyOf()).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyOf()).toBe(keyOf());
+  });
+
+  test("changes when an imported file changes", () => {
+    const before = keyOf();
+    write("lib/part.tsx", "export const Part = () => <capacitor />\n");
+
+    expect(keyOf()).not.toBe(before);
+  });
+
+  test("ignores files the board does not import", () => {
+    const before = keyOf();
+    write("other.circuit.tsx", "export default () => <board width={10} />\n");
+
+    expect(keyOf()).toBe(before);
+  });
+
+  test("covers the engine and dependency versions", () => {
+    const before = keyOf();
+
+    expect(keyOf(undefined, { engineVersion: "0.0.501" })).not.toBe(before);
+    expect(
+      keyOf(undefined, { dependencies: { "left-pad": "1.3.1" } }),
+    ).not.toBe(before);
+  });
+
+  test("returns null when an import cannot be resolved", () => {
+    write("index.circuit.tsx", 'import "./missing"\n');
+
+    expect(keyOf()).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { fileURLToPath } from "node:url";
+import { runCircuitProcess } from "../utils/circuit-process";
+
+const enginePath = fileURLToPath(
+  new URL("./fixtures/circuit-engine.mjs", import.meta.url),
+);
+// The child always runs on Node, also when the server runs on Bun
+const nodePath = Bun.which("node");
+
+const run = (source: string, options: { timeoutMs?: number } = {}) =>
+  runCircuitProcess(
+    {
+      fsMap: { "index.circuit.tsx": source },
+      mainComponentPath: "index.circuit.tsx",
+      enginePath,
+    },
+    {
+      filePath: "/index.circuit.tsx",
+      timeoutMs: options.timeoutMs ?? 10_000,
+      maxMemoryMb: 64,
+    },
+  );
+
+describe.skipIf(!nodePath)("runCircuitProcess", () => {
+  beforeEach(() => {
+    process.env.CIRCUIT_PROCESS_TEST_SECRET = "hunter2";
+  });
+
+  afterEach(() => {
+    delete process.env.CIRCUIT_PROCESS_TEST_SECRET;
+  });
+
+  test("returns the circuit JSON of the main component", async () => {
+    const [board] = await run("export default () => <board />");
+
+    expect(board.type).toBe("source_board");
+    expect(board.main_component_path).toBe("index.circuit.tsx");
+  });
+
+  test("does not pass the server environment to the child", async () => {
+    const [board] = await run("export default () => <board />");
+
+    expect(board.secret).toBeNull();
+    expect(board.env_keys).toEqual(["NODE_ENV"]);
+  });
+
+  test("cannot read the server's environment through /proc", async () => {
+    const [board] = await run("export default () => <board />");
+
+    expect(board.parent_environ).toBe("ERR_ACCESS_DENIED");
+  });
+
+  test("applies the heap limit", async () => {
+    const [board] = await run("export default () => <board />");
+
+    // V8 adds the young generation on top of the old space limit
+    expect(board.heap_limit_mb).toBeLessThan(128);
+  });
+
+  test("hands binary assets to tscircuit as blob: URLs", async () => {
+    const model = Buffer.from([0x67, 0x6c, 0x54, 0x46, 0x00, 0xff]);
+    const [board] = await runCircuitProcess(
+      {
+        fsMap: { "index.circuit.tsx": "export default () => <board />" },
+        binaryAssets: { "models/part.glb": model.toString("base64") },
+        mainComponentPath: "index.circuit.tsx",
+        enginePath,
+      },
+      {
+        filePath: "/index.circuit.tsx",
+        timeoutMs: 10_000,
+        maxMemoryMb: 64,
+      },
+    );
+
+    expect(board.blob_assets).toEqual({
+      "models/part.glb": model.toString("base64"),
+    });
+  });
+
+  test("kills the child when rendering times out", async () => {
+    await expect(run("hang", { timeoutMs: 500 })).rejects.toThrow(
+      "Rendering /index.circuit.tsx timed out",
+    );
+  });
+
+  test("reports the memory limit when the child runs out of heap", async () => {
+    await expect(run("oom")).rejects.toThrow("exceeded the 64MB memory limit");
+  });
+
+  test("kills the child when the build is cancelled", async () => {
+    const controller = new AbortController();
+    const result = runCircuitProcess(
+      {
+        fsMap: { "index.circuit.tsx": "hang" },
+        mainComponentPath: "index.circuit.tsx",
+        enginePath,
+      },
+      {
+        filePath: "/index.circuit.tsx",
+        timeoutMs: 10_000,
+        maxMemoryMb: 64,
+        signal: controller.signal,
+      },
+    );
+    setTimeout(() => controller.abort(), 200);
+
+    await expect(result).rejects.toThrow("Build was cancelled");
+  });
+});
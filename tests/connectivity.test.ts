@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { Connectivity } from "../utils/connectivity";
+import { voltageDivider } from "./fixtures/circuit-json";
+
+describe("Connectivity", () => {
+  test("joins ports through the traces and nets that connect them", () => {
+    const connectivity = Connectivity.fromSourceTraces(voltageDivider());
+
+    expect(connectivity.find("r1_1")).toBe(connectivity.find("c1_1"));
+    expect(connectivity.find("r1_2")).toBe(connectivity.find("r2_1"));
+    expect(connectivity.find("r1_1")).not.toBe(connectivity.find("r1_2"));
+  });
+
+  test("treats nets of the same name as one net", () => {
+    const connectivity = Connectivity.fromSourceTraces([
+      { type: "source_net", source_net_id: "gnd_a", name: "GND" },
+      { type: "source_net", source_net_id: "gnd_b", name: "GND" },
+      {
+        type: "source_trace",
+        source_trace_id: "t1",
+        connected_source_port_ids: ["r1_2"],
+        connected_source_net_ids: ["gnd_a"],
+      },
+      {
+        type: "source_trace",
+        source_trace_id: "t2",
+        connected_source_port_ids: ["r2_2"],
+        connected_source_net_ids: ["gnd_b"],
+      },
+    ]);
+
+    expect(connectivity.find("r1_2")).toBe(connectivity.find("r2_2"));
+  });
+
+  test("tracks which ports and nets a trace lists", () => {
+    const connectivity = Connectivity.fromSourceTraces(voltageDivider());
+
+    expect(connectivity.tracedIds.has("r1_1")).toBe(true);
+    expect(connectivity.tracedIds.has("vcc")).toBe(true);
+    expect(connectivity.tracedIds.has("r3_1")).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { DependencyResolver } from "../utils/dependency-resolver";
+
+describe("DependencyResolver", () => {
+  let cacheDirectory: string;
+
+  const cachePackage = (name: string, version: string, files = {}) => {
+    const directory = path.join(cacheDirectory, name, version);
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(
+      path.join(directory, "package.json"),
+      JSON.stringify({ name, version }),
+    );
+    for (const [file, content] of Object.entries<string>(files)) {
+      fs.writeFileSync(path.join(directory, file), content);
+    }
+  };
+
+  const resolve = (dependencies: Record<string, string>) =>
+    new DependencyResolver({ cacheDirectory, offline: true }).resolve({
+      dependencies,
+    });
+
+  beforeEach(() => {
+    cacheDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "packages-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDirectory, { recursive: true, force: true });
+  });
+
+  test("installs the newest cached version matching the range", async () => {
+    cachePackage("left-pad", "1.2.0");
+    cachePackage("left-pad", "1.3.0", { "index.js": "module.exports = 1" });
+
+    const resolved = await resolve({ "left-pad": "^1.0.0" });
+
+    expect(resolved.versions).toEqual({ "left-pad": "1.3.0" });
+    expect(resolved.files["node_modules/left-pad/index.js"]).toBe(
+      "module.exports = 1",
+    );
+  });
+
+  test("rejects package names that would escape the cache", async () => {
+    await expect(resolve({ "../..": "1.0.0" })).rejects.toThrow(
+      'Invalid package.json: dependency "../.." is not a valid package name',
+    );
+    await expect(resolve({ "@scope/../../x": "1.0.0" })).rejects.toThrow(
+      "Invalid package.json",
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, test } from "bun:test";
+import { DesignRuleChecker } from "../utils/design-rule-checker";
+import { ProjectConfigSchema } from "../shared/types";
+
+// 0.15mm trace width and clearance, 0.25mm hole to edge
+const rules = ProjectConfigSchema.parse({}).drc;
+const board = {
+  type: "pcb_board",
+  center: { x: 0, y: 0 },
+  width: 20,
+  height: 20,
+};
+
+const wire = (x: number, y: number, layer = "top", width = 0.2) => ({
+  route_type: "wire",
+  x,
+  y,
+  width,
+  layer,
+});
+
+const pad = (id: string, x: number, y: number, props: object) => ({
+  type: "pcb_smtpad",
+  pcb_smtpad_id: id,
+  layer: "top",
+  x,
+  y,
+  ...props,
+});
+
+const rulesOf = (circuitJson: any[]) =>
+  DesignRuleChecker.check(circuitJson, rules).map(
+    (violation) => violation.rule,
+  );
+
+describe("DesignRuleChecker", () => {
+  test("passes a board without violations", () => {
+    expect(
+      DesignRuleChecker.check(
+        [
+          board,
+          {
+            type: "pcb_trace",
+            pcb_trace_id: "trace_a",
+            route: [wire(-5, 0), wire(5, 0)],
+          },
+        ],
+        rules,
+      ),
+    ).toEqual([]);
+  });
+
+  test("reports narrow traces by their source trace name", () => {
+    const violations = DesignRuleChecker.check(
+      [
+        board,
+        {
+          type: "source_trace",
+          source_trace_id: "source_a",
+          display_name: "R1.pin1 to C1.pin1",
+        },
+        {
+          type: "pcb_trace",
+          pcb_trace_id: "trace_a",
+          source_trace_id: "source_a",
+          route: [wire(-5, 0, "top", 0.1), wire(5, 0, "top", 0.1)],
+        },
+      ],
+      rules,
+    );
+
+    expect(violations).toEqual([
+      {
+        rule: "trace_width",
+        message:
+          "Trace R1.pin1 to C1.pin1 is 0.1mm wide, below the 0.15mm minimum",
+        measured: 0.1,
+        required: 0.15,
+        location: { x: -5, y: 0 },
+      },
+    ]);
+  });
+
+  test("reports copper of different nets closer than the clearance", () => {
+    const violations = DesignRuleChecker.check(
+      [
+        board,
+        pad("pad_a", 0, 0, { shape: "rect", width: 1, height: 1 }),
+        pad("pad_b", 1.1, 0, { shape: "rect", width: 1, height: 1 }),
+      ],
+      rules,
+    );
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ rule: "clearance", measured: 0.1 });
+  });
+
+  test("takes pad rotation into account", () => {
+    // 2mm x 0.4mm pad turned upright, so it spans y -1..1 and x -0.2..0.2
+    const upright = pad("pad_a", 0, 0, {
+      shape: "rotated_rect",
+      width: 2,
+      height: 0.4,
+      ccw_rotation: 90,
+    });
+    const beside = pad("pad_b", 0.6, 0, {
+      shape: "rect",
+      width: 0.4,
+      height: 0.4,
+    });
+    const above = pad("pad_c", 0, 1.1, {
+      shape: "rect",
+      width: 0.4,
+      height: 0.4,
+    });
+
+    expect(rulesOf([board, upright, beside])).toEqual([]);
+    expect(rulesOf([board, upright, above])).toEqual(["clearance"]);
+  });
+
+  test("puts vias on the net of the trace routed through them", () => {
+    const trace = {
+      type: "pcb_trace",
+      pcb_trace_id: "trace_a",
+      route: [
+        wire(0, 0, "top"),
+        wire(2, 0, "top"),
+        {
+          route_type: "via",
+          x: 2,
+          y: 0,
+          from_layer: "top",
+          to_layer: "bottom",
+        },
+        wire(2, 0, "bottom"),
+        wire(4, 0, "bottom"),
+      ],
+    };
+    const via = {
+      type: "pcb_via",
+      pcb_via_id: "via_a",
+      x: 2,
+      y: 0,
+      outer_diameter: 0.6,
+      hole_diameter: 0.3,
+      layers: ["top", "bottom"],
+    };
+
+    expect(rulesOf([board, trace, via])).toEqual([]);
+    expect(rulesOf([board, trace, { ...via, x: 2, y: 0.4 }])).toEqual([
+      "clearance",
+    ]);
+  });
+
+  test("reports holes near the board edge and components outside it", () => {
+    const violations = rulesOf([
+      board,
+      { type: "pcb_hole", hole_diameter: 1, x: 9.4, y: 0 },
+      {
+        type: "pcb_component",
+        pcb_component_id: "pcb_r1",
+        center: { x: 9.8, y: 5 },
+        width: 1,
+        height: 0.5,
+      },
+    ]);
+
+    expect(violations).toEqual(["hole_to_edge", "component_outside_board"]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { ElectricalRuleChecker } from "../utils/electrical-rule-checker";
+import { voltageDivider } from "./fixtures/circuit-json";
+
+const withoutTrace = (circuitJson: any[], traceId: string) =>
+  circuitJson.filter((element) => element.source_trace_id !== traceId);
+
+describe("ElectricalRuleChecker", () => {
+  test("passes a fully connected circuit", () => {
+    expect(ElectricalRuleChecker.check(voltageDivider())).toEqual([]);
+  });
+
+  test("warns about unconnected pins", () => {
+    const issues = ElectricalRuleChecker.check(
+      withoutTrace(voltageDivider(), "t5"),
+    );
+
+    expect(issues).toEqual([
+      {
+        rule: "unconnected_pin",
+        severity: "warning",
+        message: "Pin C1.pin2 is not connected",
+        componentName: "C1",
+      },
+    ]);
+  });
+
+  test("warns about power nets nothing drives", () => {
+    const issues = ElectricalRuleChecker.check(
+      withoutTrace(voltageDivider(), "t6"),
+    );
+
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        rule: "power_net_without_source",
+        netNames: ["VCC"],
+      }),
+    );
+  });
+
+  test("treats nets of the same name in different subcircuits as one", () => {
+    const circuitJson = withoutTrace(voltageDivider(), "t1");
+    circuitJson.push(
+      { type: "source_net", source_net_id: "vcc_sub", name: "VCC" },
+      {
+        type: "source_trace",
+        source_trace_id: "t1_sub",
+        connected_source_port_ids: ["r1_1"],
+        connected_source_net_ids: ["vcc_sub"],
+      },
+    );
+
+    expect(ElectricalRuleChecker.check(circuitJson)).toEqual([]);
+  });
+
+  test("reports distinct nets joined by a trace as shorted", () => {
+    const issues = ElectricalRuleChecker.check([
+      ...voltageDivider(),
+      { type: "source_net", source_net_id: "v3", name: "V3_3" },
+      {
+        type: "source_trace",
+        source_trace_id: "t8",
+        connected_source_port_ids: ["r1_1"],
+        connected_source_net_ids: ["v3"],
+      },
+    ]);
+
+    expect(issues).toEqual([
+      {
+        rule: "shorted_nets",
+        severity: "error",
+        message: "Nets V3_3, VCC are shorted together",
+        netNames: ["V3_3", "VCC"],
+      },
+    ]);
+  });
+});
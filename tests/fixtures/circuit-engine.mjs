@@ -0,0 +1,58 @@
+// Stand-in for tscircuit's CircuitRunner. The main component's source picks
+// the behaviour: "hang" never settles, "oom" allocates until the heap limit
+// and anything else returns a circuit JSON describing the child process and
+// the bytes behind the blob: URLs of its fsMap.
+import { readFileSync } from "node:fs";
+import v8 from "node:v8";
+
+const tryRead = (file) => {
+  try {
+    return readFileSync(file, "utf8");
+  } catch (error) {
+    return error.code ?? String(error);
+  }
+};
+
+export class CircuitRunner {
+  async executeWithFsMap({ fsMap, mainComponentPath }) {
+    this.fsMap = fsMap;
+    this.mainComponentPath = mainComponentPath;
+    this.source = fsMap[mainComponentPath];
+  }
+
+  async renderUntilSettled() {
+    if (this.source === "hang") {
+      await new Promise(() => setInterval(() => {}, 1000));
+    }
+    if (this.source === "oom") {
+      const chunks = [];
+      while (true) chunks.push(new Array(1_000_000).fill(chunks.length));
+    }
+  }
+
+  async getCircuitJson() {
+    const blobAssets = {};
+    for (const [projectPath, content] of Object.entries(this.fsMap)) {
+      if (content.startsWith("blob:")) {
+        const response = await fetch(content);
+        blobAssets[projectPath] = Buffer.from(
+          await response.arrayBuffer(),
+        ).toString("base64");
+      }
+    }
+
+    return [
+      {
+        type: "source_board",
+        main_component_path: this.mainComponentPath,
+        secret: process.env.CIRCUIT_PROCESS_TEST_SECRET ?? null,
+        env_keys: Object.keys(process.env),
+        parent_environ: tryRead(`/proc/${process.ppid}/environ`),
+        heap_limit_mb: Math.round(
+          v8.getHeapStatistics().heap_size_limit / 1024 / 1024,
+        ),
+        blob_assets: blobAssets,
+      },
+    ];
+  }
+}
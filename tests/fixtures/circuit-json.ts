@@ -0,0 +1,88 @@
+// Hand-written circuit JSON, reduced to the fields the generators and rule
+// checkers read
+
+const component = (id: string, name: string, props: object = {}) => ({
+  type: "source_component",
+  source_component_id: id,
+  name,
+  ...props,
+});
+
+const port = (componentId: string, pinNumber: number, name?: string) => ({
+  type: "source_port",
+  source_port_id: `${componentId}_${pinNumber}`,
+  source_component_id: componentId,
+  name: name ?? `pin${pinNumber}`,
+  pin_number: pinNumber,
+});
+
+const trace = (id: string, portIds: string[], netIds: string[] = []) => ({
+  type: "source_trace",
+  source_trace_id: id,
+  connected_source_port_ids: portIds,
+  connected_source_net_ids: netIds,
+});
+
+/**
+ * R1 and R2 (1kΩ) in series from VCC to GND with C1 (100nF) across the
+ * supply, powered by V1. V1 is not placed on the 20x20mm board.
+ */
+export const voltageDivider = (): any[] => [
+  component("r1", "R1", { ftype: "simple_resistor", resistance: 1000 }),
+  component("r2", "R2", { ftype: "simple_resistor", resistance: 1000 }),
+  component("c1", "C1", { ftype: "simple_capacitor", capacitance: 1e-7 }),
+  component("v1", "V1", { ftype: "simple_power_source", voltage: 5 }),
+  port("r1", 1),
+  port("r1", 2),
+  port("r2", 1),
+  port("r2", 2),
+  port("c1", 1),
+  port("c1", 2),
+  port("v1", 1, "pos"),
+  port("v1", 2, "neg"),
+  { type: "source_net", source_net_id: "vcc", name: "VCC", is_power: true },
+  { type: "source_net", source_net_id: "gnd", name: "GND", is_ground: true },
+  trace("t1", ["r1_1"], ["vcc"]),
+  trace("t2", ["r1_2", "r2_1"]),
+  trace("t3", ["r2_2"], ["gnd"]),
+  trace("t4", ["c1_1"], ["vcc"]),
+  trace("t5", ["c1_2"], ["gnd"]),
+  trace("t6", ["v1_1"], ["vcc"]),
+  trace("t7", ["v1_2"], ["gnd"]),
+  ...["r1", "r2", "c1"].map((id) => ({
+    type: "cad_component",
+    source_component_id: id,
+    footprinter_string: "0402",
+  })),
+  { type: "pcb_board", center: { x: 0, y: 0 }, width: 20, height: 20 },
+  {
+    type: "pcb_component",
+    pcb_component_id: "pcb_r1",
+    source_component_id: "r1",
+    center: { x: -5, y: 2.5 },
+    rotation: 0,
+    layer: "top",
+    width: 1,
+    height: 0.5,
+  },
+  {
+    type: "pcb_component",
+    pcb_component_id: "pcb_r2",
+    source_component_id: "r2",
+    center: { x: 0, y: 0 },
+    rotation: 90,
+    layer: "top",
+    width: 1,
+    height: 0.5,
+  },
+  {
+    type: "pcb_component",
+    pcb_component_id: "pcb_c1",
+    source_component_id: "c1",
+    center: { x: 5.123456, y: -2.5 },
+    rotation: -90,
+    layer: "bottom",
+    width: 1,
+    height: 0.5,
+  },
+];
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { NetlistGenerator } from "../utils/netlist-generator";
+import { voltageDivider } from "./fixtures/circuit-json";
+
+describe("NetlistGenerator", () => {
+  test("merges ports joined by traces and named nets", () => {
+    const netlist = NetlistGenerator.generate(voltageDivider());
+
+    expect(netlist.components.map((component) => component.designator)).toEqual(
+      ["C1", "R1", "R2"],
+    );
+    expect(NetlistGenerator.toJsonMap(netlist)).toEqual({
+      GND: ["C1.pin2", "R2.pin2"],
+      "Net-(R1-Pad2)": ["R1.pin2", "R2.pin1"],
+      VCC: ["C1.pin1", "R1.pin1"],
+    });
+  });
+
+  test("writes a KiCad netlist with a node per pin", () => {
+    const kicad = NetlistGenerator.toKicad(
+      NetlistGenerator.generate(voltageDivider()),
+      "divider",
+    );
+
+    expect(kicad).toContain('(design (source "divider")');
+    expect(kicad).toContain(
+      '(comp (ref "R1") (value "1kΩ") (footprint "0402"))',
+    );
+    expect(kicad).toContain('(net (code "1") (name "GND")');
+    expect(kicad).toContain('(node (ref "C1") (pin "2") (pinfunction "pin2"))');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { PickAndPlaceGenerator } from "../utils/pick-and-place-generator";
+import { voltageDivider } from "./fixtures/circuit-json";
+
+describe("PickAndPlaceGenerator", () => {
+  test("lists placed components with normalized rotation and side", () => {
+    expect(PickAndPlaceGenerator.generate(voltageDivider())).toEqual([
+      { designator: "C1", x: 5.1235, y: -2.5, rotation: 270, side: "bottom" },
+      { designator: "R1", x: -5, y: 2.5, rotation: 0, side: "top" },
+      { designator: "R2", x: 0, y: 0, rotation: 90, side: "top" },
+    ]);
+  });
+
+  test("writes a CPL file with millimetre coordinates", () => {
+    const csv = PickAndPlaceGenerator.toCsv(
+      PickAndPlaceGenerator.generate(voltageDivider()),
+    );
+
+    expect(csv.split("\n")).toEqual([
+      "Designator,Mid X,Mid Y,Layer,Rotation",
+      "C1,5.1235mm,-2.5mm,Bottom,270",
+      "R1,-5mm,2.5mm,Top,0",
+      "R2,0mm,0mm,Top,90",
+      "",
+    ]);
+  });
+});
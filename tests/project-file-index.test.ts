@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ProjectFileIndex } from "../utils/project-file-index";
+
+const model = Buffer.from([0x67, 0x6c, 0x54, 0x46, 0x02, 0x00, 0x00, 0xff]);
+
+describe("ProjectFileIndex", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "project-file-index-"));
+    fs.mkdirSync(path.join(root, "models"));
+    fs.writeFileSync(
+      path.join(root, "index.circuit.tsx"),
+      'import model from "./models/part.glb"\nexport default () => <board />\n',
+    );
+    fs.writeFileSync(path.join(root, "models", "part.glb"), model);
+    fs.writeFileSync(
+      path.join(root, "models", "part.kicad_mod"),
+      "(footprint part)\n",
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("keeps binary assets out of the fsMap", () => {
+    const index = ProjectFileIndex.build(root);
+
+    expect(Object.keys(index.toFsMap()).sort()).toEqual([
+      "index.circuit.tsx",
+      "models/part.kicad_mod",
+    ]);
+    expect(index.toFsMap()["models/part.kicad_mod"]).toBe("(footprint part)\n");
+  });
+
+  test("returns the exact bytes of binary assets as base64", () => {
+    const index = ProjectFileIndex.build(root);
+    const binaryAssets = index.toBinaryAssetMap();
+
+    expect(Object.keys(binaryAssets)).toEqual(["models/part.glb"]);
+    expect(Buffer.from(binaryAssets["models/part.glb"], "base64")).toEqual(
+      model,
+    );
+  });
+
+  test("skips assets above the size limit with a warning", () => {
+    const index = ProjectFileIndex.build(root, { maxAssetSizeBytes: 4 });
+
+    expect(index.toBinaryAssetMap()).toEqual({});
+    expect(index.warnings).toHaveLength(2);
+  });
+});
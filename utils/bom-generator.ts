@@ -0,0 +1,156 @@
+import { compareDesignators, formatCsv } from "./csv";
+
+export interface BomLine {
+  designators: string[];
+  quantity: number;
+  value?: string;
+  footprint?: string;
+  manufacturerPartNumber?: string;
+  /** Supplier part numbers keyed by supplier, e.g. { lcsc: ["C25804"] } */
+  supplierPartNumbers?: Record<string, string[]>;
+  ftype?: string;
+}
+
+const CSV_HEADERS = [
+  "Designator",
+  "Quantity",
+  "Value",
+  "Footprint",
+  "Manufacturer Part Number",
+  "Supplier Part Numbers",
+];
+const SI_PREFIXES: Array<[number, string]> = [
+  [1e9, "G"],
+  [1e6, "M"],
+  [1e3, "k"],
+  [1, ""],
+  [1e-3, "m"],
+  [1e-6, "µ"],
+  [1e-9, "n"],
+  [1e-12, "p"],
+];
+
+/**
+ * Bill of materials for a board, derived from the `source_component`
+ * elements of its circuit JSON. Identical parts (same value, footprint and
+ * part numbers) are grouped onto one line with all of their designators.
+ */
+export class BomGenerator {
+  static generate(circuitJson: unknown): BomLine[] {
+    if (!Array.isArray(circuitJson)) return [];
+
+    const footprints = new Map<string, string>();
+    const placedComponentIds = new Set<string>();
+    for (const element of circuitJson) {
+      if (element?.type === "cad_component" && element.footprinter_string) {
+        footprints.set(element.source_component_id, element.footprinter_string);
+      }
+      if (element?.type === "pcb_component") {
+        placedComponentIds.add(element.source_component_id);
+      }
+    }
+
+    const lines = new Map<string, BomLine>();
+    for (const component of circuitJson) {
+      if (component?.type !== "source_component") continue;
+      // Grounds, power sources and other virtual parts never reach the PCB
+      if (
+        placedComponentIds.size > 0 &&
+        !placedComponentIds.has(component.source_component_id)
+      ) {
+        continue;
+      }
+
+      const line: BomLine = {
+        designators: [component.name],
+        quantity: 1,
+        value: this.getValue(component),
+        footprint: footprints.get(component.source_component_id),
+        manufacturerPartNumber: component.manufacturer_part_number,
+        supplierPartNumbers: component.supplier_part_numbers,
+        ftype: component.ftype,
+      };
+
+      const key = JSON.stringify([
+        line.ftype,
+        line.value,
+        line.footprint,
+        line.manufacturerPartNumber,
+        line.supplierPartNumbers,
+      ]);
+      const existing = lines.get(key);
+      if (existing) {
+        existing.designators.push(component.name);
+        existing.quantity += 1;
+      } else {
+        lines.set(key, line);
+      }
+    }
+
+    return [...lines.values()]
+      .map((line) => ({
+        ...line,
+        designators: line.designators.sort(compareDesignators),
+      }))
+      .sort((a, b) => compareDesignators(a.designators[0], b.designators[0]));
+  }
+
+  static toCsv(lines: BomLine[]): string {
+    const rows = lines.map((line) => [
+      line.designators.join(", "),
+      String(line.quantity),
+      line.value ?? "",
+      line.footprint ?? "",
+      line.manufacturerPartNumber ?? "",
+      Object.entries(line.supplierPartNumbers ?? {})
+        .map(
+          ([supplier, partNumbers]) => `${supplier}: ${partNumbers.join(" ")}`,
+        )
+        .join("; "),
+    ]);
+
+    return formatCsv([CSV_HEADERS, ...rows]);
+  }
+
+  private static getValue(component: any): string | undefined {
+    if (component.display_value) return component.display_value;
+
+    switch (component.ftype) {
+      case "simple_resistor":
+        return (
+          component.display_resistance ??
+          this.formatSi(component.resistance, "Ω")
+        );
+      case "simple_capacitor":
+        return (
+          component.display_capacitance ??
+          this.formatSi(component.capacitance, "F")
+        );
+      case "simple_inductor":
+        return this.formatSi(component.inductance, "H");
+      case "simple_crystal":
+      case "simple_resonator":
+        return this.formatSi(component.frequency, "Hz");
+      case "simple_fuse":
+        return this.formatSi(component.current_rating_amps, "A");
+      case "simple_transistor":
+        return component.transistor_type?.toUpperCase();
+      case "simple_mosfet":
+        return component.channel_type
+          ? `${component.channel_type.toUpperCase()}-channel`
+          : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  private static formatSi(value: unknown, unit: string): string | undefined {
+    if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+    if (value === 0) return `0${unit}`;
+
+    const [scale, prefix] =
+      SI_PREFIXES.find(([scale]) => Math.abs(value) >= scale) ??
+      SI_PREFIXES[SI_PREFIXES.length - 1];
+    return `${Number((value / scale).toPrecision(4))}${prefix}${unit}`;
+  }
+}
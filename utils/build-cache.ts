@@ -0,0 +1,153 @@
+import path from "node:path";
+import { createHash } from "node:crypto";
+import type { ProjectFileIndex } from "./project-file-index";
+
+// Specifiers of static imports, re-exports, dynamic imports and requires
+const IMPORT_PATTERN =
+  /(?:import|export)\s[^'"`;]*?from\s*["']([^"']+)["']|import\s*\(?\s*["']([^"']+)["']|require\(\s*["']([^"']+)["']\s*\)/g;
+const RESOLVE_SUFFIXES = [
+  "",
+  ".tsx",
+  ".ts",
+  ".jsx",
+  ".js",
+  ".json",
+  "/index.tsx",
+  "/index.ts",
+  "/index.jsx",
+  "/index.js",
+];
+// Bundled with the server, so they are covered by the engine version
+const RUNTIME_PACKAGES = ["tscircuit", "react", "react-dom"];
+const RUNTIME_PACKAGE_SCOPES = ["@tscircuit/"];
+
+export interface BuildCacheKeyOptions {
+  engineVersion: string;
+  /** Installed dependency versions of the project, keyed by name */
+  dependencies?: Record<string, string>;
+}
+
+/**
+ * Content-addressed cache keys for circuit builds. A board's key covers the
+ * hashes of every project file it imports (transitively), the versions of
+ * the packages it uses and the tscircuit engine version, so a matching key
+ * means the circuit JSON of an earlier build can be reused as-is.
+ */
+export class BuildCache {
+  static computeCacheKey(
+    fileIndex: ProjectFileIndex,
+    entryPath: string,
+    options: BuildCacheKeyOptions,
+  ): string | null {
+    const sources = this.collectSources(
+      fileIndex,
+      fileIndex.toProjectPath(entryPath),
+    );
+    if (!sources) return null;
+
+    const dependencies = options.dependencies ?? {};
+    const packages = [...sources.packages]
+      .sort()
+      .map((name) => [name, dependencies[name] ?? null]);
+    const files = [...sources.files]
+      .sort()
+      .map((projectPath) => [
+        projectPath,
+        fileIndex.getProjectFile(projectPath)?.hash,
+      ]);
+
+    return createHash("sha256")
+      .update(
+        JSON.stringify({ engine: options.engineVersion, files, packages }),
+      )
+      .digest("hex");
+  }
+
+  /**
+   * Follows the imports of an entrypoint through the indexed project files.
+   * Returns null when an import cannot be resolved (e.g. a tsconfig path
+   * alias), as the board's sources are then unknown and it must be rebuilt.
+   */
+  private static collectSources(
+    fileIndex: ProjectFileIndex,
+    entryProjectPath: string,
+  ): { files: Set<string>; packages: Set<string> } | null {
+    const files = new Set<string>();
+    const packages = new Set<string>();
+    const queue = [entryProjectPath];
+
+    while (queue.length > 0) {
+      const projectPath = queue.shift()!;
+      if (files.has(projectPath)) continue;
+
+      const entry = fileIndex.getProjectFile(projectPath);
+      if (!entry) return null;
+      files.add(projectPath);
+
+      // Assets (models, images) have no imports of their own
+      if (entry.encoding !== "utf-8" || projectPath.endsWith(".json")) {
+        continue;
+      }
+
+      for (const match of entry.content.matchAll(IMPORT_PATTERN)) {
+        const specifier = match[1] ?? match[2] ?? match[3];
+
+        if (specifier.startsWith(".")) {
+          const resolved = this.resolveRelativeImport(
+            fileIndex,
+            projectPath,
+            specifier,
+          );
+          if (!resolved) return null;
+          queue.push(resolved);
+        } else {
+          const packageName = this.getPackageName(specifier);
+          if (this.isRuntimePackage(packageName)) continue;
+          if (
+            !fileIndex.getProjectFile(
+              `node_modules/${packageName}/package.json`,
+            )
+          ) {
+            return null;
+          }
+          packages.add(packageName);
+        }
+      }
+    }
+
+    return { files, packages };
+  }
+
+  private static resolveRelativeImport(
+    fileIndex: ProjectFileIndex,
+    importerPath: string,
+    specifier: string,
+  ): string | null {
+    const basePath = path.posix.join(
+      path.posix.dirname(importerPath),
+      specifier,
+    );
+
+    for (const suffix of RESOLVE_SUFFIXES) {
+      if (fileIndex.getProjectFile(basePath + suffix)) {
+        return basePath + suffix;
+      }
+    }
+
+    return null;
+  }
+
+  private static getPackageName(specifier: string): string {
+    const segments = specifier.split("/");
+    return specifier.startsWith("@")
+      ? segments.slice(0, 2).join("/")
+      : segments[0];
+  }
+
+  private static isRuntimePackage(name: string): boolean {
+    return (
+      RUNTIME_PACKAGES.includes(name) ||
+      RUNTIME_PACKAGE_SCOPES.some((scope) => name.startsWith(scope))
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import type { CircuitDiagnostic, SnapshotResult } from "../shared/types";
+import type { CheckRunAnnotation } from "../shared/github.service";
+
+/**
+ * Collects the `*_error` elements tscircuit writes into the circuit JSON
+ * (failed components, autorouting failures, trace and overlap errors) so
+ * they can be reported instead of silently shipping a broken board.
+ */
+export class CircuitDiagnostics {
+  static extract(circuitJson: unknown): CircuitDiagnostic[] {
+    if (!Array.isArray(circuitJson)) return [];
+
+    const sourceComponentNames = new Map<string, string>();
+    const pcbToSourceComponent = new Map<string, string>();
+    for (const element of circuitJson) {
+      if (element?.type === "source_component") {
+        sourceComponentNames.set(element.source_component_id, element.name);
+      } else if (element?.type === "pcb_component") {
+        pcbToSourceComponent.set(
+          element.pcb_component_id,
+          element.source_component_id,
+        );
+      }
+    }
+
+    return circuitJson
+      .filter(
+        (element) =>
+          typeof element?.type === "string" && element.type.endsWith("_error"),
+      )
+      .map((element) => {
+        const pcbComponentId =
+          element.pcb_component_id ?? element.pcb_component_ids?.[0];
+        const sourceComponentId =
+          element.source_component_id ??
+          pcbToSourceComponent.get(pcbComponentId);
+
+        return {
+          type: element.type,
+          message: element.message || element.error_type || element.type,
+          componentName:
+            element.component_name ??
+            sourceComponentNames.get(sourceComponentId),
+        };
+      });
+  }
+
+  static count(snapshot: SnapshotResult): number {
+    return snapshot.circuitFiles.reduce(
+      (sum, file) => sum + (file.diagnostics?.length ?? 0),
+      0,
+    );
+  }
+
+  /** Whether the repository asked for circuit errors to fail the check */
+  static shouldFailCheck(snapshot: SnapshotResult): boolean {
+    return (
+      snapshot.config?.checks.failOnCircuitErrors === true &&
+      this.count(snapshot) > 0
+    );
+  }
+
+  /**
+   * One annotation per diagnostic, pinned to the top of the board file since
+   * circuit JSON does not map errors back to source lines.
+   */
+  static toAnnotations(snapshot: SnapshotResult): CheckRunAnnotation[] {
+    const level = this.shouldFailCheck(snapshot) ? "failure" : "warning";
+
+    return snapshot.circuitFiles.flatMap((file) =>
+      (file.diagnostics ?? []).map((diagnostic) => ({
+        path: file.path.replace(/^\/+/, ""),
+        start_line: 1,
+        end_line: 1,
+        annotation_level: level,
+        title: diagnostic.componentName
+          ? `${diagnostic.type} (${diagnostic.componentName})`
+          : diagnostic.type,
+        message: diagnostic.message,
+      })),
+    );
+  }
+
+  /** Markdown list of the diagnostics, used in check run output */
+  static toMarkdown(snapshot: SnapshotResult): string {
+    return snapshot.circuitFiles
+      .flatMap((file) =>
+        (file.diagnostics ?? []).map(
+          (diagnostic) =>
+            `- \`${file.path}\`: ${diagnostic.componentName ? `**${diagnostic.componentName}** ` : ""}${diagnostic.message}`,
+        ),
+      )
+      .join("\n");
+  }
+}
@@ -0,0 +1,182 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+export interface CircuitWorkerData {
+  fsMap: Record<string, string>;
+  /** Base64 content of binary assets, added to the fsMap as blob: URLs */
+  binaryAssets?: Record<string, string>;
+  mainComponentPath: string;
+  /** Entry module of a pinned tscircuit install, defaults to the bundled one */
+  enginePath?: string;
+}
+
+export type CircuitWorkerMessage =
+  | { type: "progress"; message: string }
+  | { type: "result"; circuitJson: any }
+  | { type: "error"; error: string };
+
+export interface CircuitProcessOptions {
+  /** Used in timeout and memory limit errors */
+  filePath: string;
+  timeoutMs: number;
+  /** V8 heap limit of the child process */
+  maxMemoryMb: number;
+  /** Aborting the signal kills the child process */
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * The child always runs on Node: Bun ignores --max-old-space-size and has
+ * no permission model
+ */
+function findNodeExecutable(): string {
+  if (!process.versions.bun) return process.execPath;
+
+  for (const directory of (process.env.PATH ?? "").split(path.delimiter)) {
+    const candidate = path.join(directory, "node");
+    if (directory && fs.existsSync(candidate)) return candidate;
+  }
+  throw new Error(
+    "Node.js is required to evaluate circuits but was not found on PATH",
+  );
+}
+
+/** Files and directories the child may read: its entry and the engine */
+function getReadablePaths(workerPath: string, enginePath?: string): string[] {
+  const paths = [workerPath];
+
+  if (enginePath) {
+    // The engine's dependencies are installed next to it
+    const marker = `${path.sep}node_modules${path.sep}`;
+    const index = enginePath.lastIndexOf(marker);
+    paths.push(
+      index === -1
+        ? path.dirname(enginePath)
+        : enginePath.slice(0, index + marker.length - 1),
+    );
+    return paths;
+  }
+
+  // Where Node resolves the worker's bare "tscircuit" import from
+  for (
+    let directory = path.dirname(workerPath);
+    ;
+    directory = path.dirname(directory)
+  ) {
+    const nodeModules = path.join(directory, "node_modules");
+    if (fs.existsSync(nodeModules)) paths.push(nodeModules);
+    if (path.dirname(directory) === directory) break;
+  }
+  return paths;
+}
+
+/**
+ * Evaluates a circuit in a child process that is killed on timeout or
+ * cancellation. The child runs under Node's permission model: it may only
+ * read its own entry and the tscircuit install, so it cannot read server
+ * files or the server's environment through /proc, and it cannot start
+ * processes or threads. Its own environment holds nothing but NODE_ENV, and
+ * running out of memory or crashing only ends the child.
+ *
+ * Network access is not restricted, and the memory limit only caps the V8
+ * heap.
+ */
+export function runCircuitProcess(
+  data: CircuitWorkerData,
+  options: CircuitProcessOptions,
+): Promise<any> {
+  const { filePath, timeoutMs, maxMemoryMb, signal, onProgress } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(new Error("Build was cancelled"));
+  }
+
+  let nodePath: string;
+  try {
+    nodePath = findNodeExecutable();
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  const workerPath = fileURLToPath(
+    new URL("./circuit-worker.mjs", import.meta.url),
+  );
+
+  return new Promise((resolve, reject) => {
+    // spawn rather than fork, as Bun's fork drops execArgv
+    const child = spawn(
+      nodePath,
+      [
+        `--max-old-space-size=${maxMemoryMb}`,
+        "--experimental-permission",
+        "--disable-warning=ExperimentalWarning",
+        ...getReadablePaths(workerPath, data.enginePath).map(
+          (readablePath) => `--allow-fs-read=${readablePath}`,
+        ),
+        workerPath,
+      ],
+      {
+        env: { NODE_ENV: process.env.NODE_ENV || "production" },
+        stdio: ["ignore", "inherit", "inherit", "ipc"],
+      },
+    );
+
+    let settled = false;
+    const finish = (error: Error | null, circuitJson?: any) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill("SIGKILL");
+      }
+      if (error) reject(error);
+      else resolve(circuitJson);
+    };
+
+    const onAbort = () => finish(new Error("Build was cancelled"));
+    const timer = setTimeout(
+      () =>
+        finish(
+          new Error(
+            `Rendering ${filePath} timed out after ${Math.round(timeoutMs / 1000)}s`,
+          ),
+        ),
+      timeoutMs,
+    );
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    child.on("message", (message: CircuitWorkerMessage) => {
+      if (message.type === "progress") {
+        onProgress?.(message.message);
+      } else if (message.type === "result") {
+        finish(null, message.circuitJson);
+      } else {
+        finish(new Error(message.error));
+      }
+    });
+
+    child.on("error", (error) => finish(error));
+
+    child.on("exit", (code, exitSignal) => {
+      // V8 aborts the process when the heap limit is reached
+      if (exitSignal === "SIGABRT" || code === 134) {
+        finish(
+          new Error(
+            `Rendering ${filePath} exceeded the ${maxMemoryMb}MB memory limit`,
+          ),
+        );
+      } else {
+        finish(
+          new Error(
+            `Circuit process exited unexpectedly (${exitSignal ?? `code ${code}`})`,
+          ),
+        );
+      }
+    });
+
+    child.send(data);
+  });
+}
@@ -0,0 +1,38 @@
+// Entry of the child process started by runCircuitProcess (see
+// circuit-process.ts). Plain ESM so Node can start it without a TypeScript
+// loader; the app's SSR build emits it next to the server chunks.
+//
+// The child receives the virtual file system of one board over IPC,
+// evaluates it with tscircuit and sends the circuit JSON back.
+process.once("message", async (data) => {
+  const { fsMap, binaryAssets = {}, mainComponentPath, enginePath } = data;
+  const post = (message) => process.send?.(message);
+
+  try {
+    // tscircuit loads binary files such as .glb or .step models from blob:
+    // URLs in the fsMap, which must be created in this process
+    for (const [projectPath, base64] of Object.entries(binaryAssets)) {
+      fsMap[projectPath] = URL.createObjectURL(
+        new Blob([Buffer.from(base64, "base64")]),
+      );
+    }
+
+    const { CircuitRunner } = await import(enginePath ?? "tscircuit");
+    const runner = new CircuitRunner();
+
+    await runner.executeWithFsMap({ fsMap, mainComponentPath });
+
+    post({ type: "progress", message: "Rendering circuit..." });
+    await runner.renderUntilSettled();
+
+    post({ type: "progress", message: "Extracting circuit JSON..." });
+    const circuitJson = await runner.getCircuitJson();
+
+    post({ type: "result", circuitJson });
+  } catch (error) {
+    post({
+      type: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -0,0 +1,53 @@
+/**
+ * Union-find over the ids of connected circuit JSON elements, shared by the
+ * netlist and the rule checkers so they agree on what is connected. Source
+ * traces join the ports and nets they list, and source nets of the same
+ * name in different subcircuits are one net.
+ */
+export class Connectivity {
+  /** Ports and nets listed by at least one source trace */
+  readonly tracedIds = new Set<string>();
+  private parents = new Map<string, string>();
+
+  private constructor() {}
+
+  static fromSourceTraces(circuitJson: any[]): Connectivity {
+    const connectivity = new Connectivity();
+
+    for (const trace of circuitJson) {
+      if (trace?.type !== "source_trace") continue;
+
+      const traceKey = `source_trace:${trace.source_trace_id}`;
+      for (const id of [
+        ...(trace.connected_source_port_ids ?? []),
+        ...(trace.connected_source_net_ids ?? []),
+      ]) {
+        connectivity.union(traceKey, id);
+        connectivity.tracedIds.add(id);
+      }
+    }
+    for (const net of circuitJson) {
+      if (net?.type !== "source_net") continue;
+
+      connectivity.union(`source_net_name:${net.name}`, net.source_net_id);
+    }
+
+    return connectivity;
+  }
+
+  /** Representative of the group the key belongs to */
+  find(key: string): string {
+    let root = key;
+    while (this.parents.has(root) && this.parents.get(root) !== root) {
+      root = this.parents.get(root)!;
+    }
+    this.parents.set(key, root);
+    return root;
+  }
+
+  union(a: string, b: string) {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parents.set(rootA, rootB);
+  }
+}
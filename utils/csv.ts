@@ -0,0 +1,17 @@
+// Helpers shared by the BOM, pick-and-place and netlist generators
+
+/** Natural order of reference designators, so R2 comes before R10 */
+export function compareDesignators(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/** CSV document with a line per row, quoting cells that need it */
+export function formatCsv(rows: string[][]): string {
+  const escapeCell = (cell: string) =>
+    /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+  return rows
+    .map((row) => row.map(escapeCell).join(","))
+    .join("\n")
+    .concat("\n");
+}
@@ -0,0 +1,269 @@
+import fs from "node:fs";
+import path from "node:path";
+import semver from "semver";
+import { FileHandler } from "./file-handler";
+import {
+  PACKAGE_CACHE_DIR,
+  PACKAGE_CACHE_OFFLINE,
+  PACKAGE_REGISTRY_URL,
+  TSCI_REGISTRY_URL,
+} from "../shared/constants";
+
+// Provided by the circuit runtime itself, never loaded from the cache
+const RUNTIME_PACKAGES = ["tscircuit", "react", "react-dom"];
+const RUNTIME_PACKAGE_SCOPES = ["@tscircuit/"];
+const PACKAGE_FILE_EXTENSIONS = [".js", ".cjs", ".mjs", ".json"];
+// npm's package name rule; names are joined into cache paths, so anything
+// else (e.g. "../..") is rejected before touching the file system
+const PACKAGE_NAME_PATTERN =
+  /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+export interface ResolvedDependencies {
+  /** node_modules files to merge into the circuit fsMap */
+  files: Record<string, string>;
+  /** Installed version of every resolved package, keyed by name */
+  versions: Record<string, string>;
+  warnings: string[];
+}
+
+export interface DependencyResolverOptions {
+  /** Directory holding extracted packages as <name>/<version> */
+  cacheDirectory?: string;
+  /** Only use packages already in the cache, never contact a registry */
+  offline?: boolean;
+  signal?: AbortSignal;
+}
+
+interface Packument {
+  "dist-tags"?: Record<string, string>;
+  versions: Record<string, { dist: { tarball: string } }>;
+}
+
+/**
+ * Installs the dependencies declared in a circuit project's package.json into
+ * a flat node_modules for the circuit fsMap. Versions already in the local
+ * cache are preferred, so builds keep working without registry access.
+ */
+export class DependencyResolver {
+  private cacheDirectory: string;
+  private offline: boolean;
+  private signal?: AbortSignal;
+  private packuments = new Map<string, Packument>();
+
+  constructor(options: DependencyResolverOptions = {}) {
+    this.cacheDirectory = options.cacheDirectory ?? PACKAGE_CACHE_DIR;
+    this.offline = options.offline ?? PACKAGE_CACHE_OFFLINE;
+    this.signal = options.signal;
+  }
+
+  async resolve(packageJson: {
+    dependencies?: Record<string, string>;
+  }): Promise<ResolvedDependencies> {
+    const result: ResolvedDependencies = {
+      files: {},
+      versions: {},
+      warnings: [],
+    };
+    const queue = Object.entries(packageJson.dependencies ?? {});
+
+    while (queue.length > 0) {
+      const [name, range] = queue.shift()!;
+      if (!PACKAGE_NAME_PATTERN.test(name)) {
+        throw new Error(
+          `Invalid package.json: dependency "${name}" is not a valid package name`,
+        );
+      }
+      if (this.isRuntimePackage(name)) continue;
+
+      // node_modules is flat, so the first resolved version of a package wins
+      const installedVersion = result.versions[name];
+      if (installedVersion) {
+        if (
+          semver.validRange(range) &&
+          !semver.satisfies(installedVersion, range)
+        ) {
+          result.warnings.push(
+            `Dependency ${name}@${range} conflicts with the installed ${installedVersion}`,
+          );
+        }
+        continue;
+      }
+
+      try {
+        const version = await this.resolveVersion(name, range);
+        const packageDirectory = await this.ensurePackage(name, version);
+
+        result.versions[name] = version;
+        this.readPackageFiles(
+          packageDirectory,
+          `node_modules/${name}`,
+          result.files,
+        );
+
+        const manifest = JSON.parse(
+          fs.readFileSync(path.join(packageDirectory, "package.json"), "utf-8"),
+        );
+        queue.push(...Object.entries<string>(manifest.dependencies ?? {}));
+      } catch (error) {
+        if (this.signal?.aborted) throw error;
+
+        const warning = `Could not resolve dependency ${name}@${range}: ${error instanceof Error ? error.message : error}`;
+        console.warn(warning);
+        result.warnings.push(warning);
+      }
+    }
+
+    return result;
+  }
+
+  private isRuntimePackage(name: string): boolean {
+    return (
+      RUNTIME_PACKAGES.includes(name) ||
+      RUNTIME_PACKAGE_SCOPES.some((scope) => name.startsWith(scope))
+    );
+  }
+
+  private async resolveVersion(name: string, range: string): Promise<string> {
+    const validRange = semver.validRange(range);
+
+    if (validRange) {
+      const cachedVersion = semver.maxSatisfying(
+        this.getCachedVersions(name),
+        validRange,
+      );
+      if (cachedVersion) return cachedVersion;
+    }
+
+    if (this.offline) {
+      throw new Error("not available in the local package cache");
+    }
+
+    const packument = await this.fetchPackument(name);
+    const version =
+      packument["dist-tags"]?.[range] ??
+      (validRange
+        ? semver.maxSatisfying(Object.keys(packument.versions), validRange)
+        : null);
+
+    if (!version) {
+      throw new Error(`no published version matches ${range}`);
+    }
+
+    return version;
+  }
+
+  private getCachedVersions(name: string): string[] {
+    const packageCacheDirectory = path.join(this.cacheDirectory, name);
+    if (!fs.existsSync(packageCacheDirectory)) return [];
+
+    return fs
+      .readdirSync(packageCacheDirectory)
+      .filter(
+        (version) =>
+          semver.valid(version) &&
+          fs.existsSync(
+            path.join(packageCacheDirectory, version, "package.json"),
+          ),
+      );
+  }
+
+  private async fetchPackument(name: string): Promise<Packument> {
+    const cached = this.packuments.get(name);
+    if (cached) return cached;
+
+    const registryUrl = name.startsWith("@tsci/")
+      ? TSCI_REGISTRY_URL
+      : PACKAGE_REGISTRY_URL;
+    const response = await fetch(`${registryUrl}/${name.replace("/", "%2f")}`, {
+      headers: { "User-Agent": "tscircuit-deploy/1.0.0" },
+      signal: this.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `registry responded ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const packument = (await response.json()) as Packument;
+    this.packuments.set(name, packument);
+    return packument;
+  }
+
+  private async ensurePackage(name: string, version: string): Promise<string> {
+    if (!semver.valid(version)) {
+      throw new Error(`invalid version ${version}`);
+    }
+
+    const packageDirectory = path.join(this.cacheDirectory, name, version);
+    if (fs.existsSync(path.join(packageDirectory, "package.json"))) {
+      return packageDirectory;
+    }
+
+    const tarballUrl = (await this.fetchPackument(name)).versions[version]?.dist
+      .tarball;
+    if (!tarballUrl) {
+      throw new Error(`no tarball published for ${version}`);
+    }
+
+    const response = await fetch(tarballUrl, {
+      headers: { "User-Agent": "tscircuit-deploy/1.0.0" },
+      signal: this.signal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `tarball download responded ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const archivePath = `${FileHandler.getTemporaryPath("package")}.tgz`;
+    const extractDirectory = FileHandler.getTemporaryPath("package");
+
+    try {
+      fs.writeFileSync(archivePath, Buffer.from(await response.arrayBuffer()));
+      fs.mkdirSync(extractDirectory, { recursive: true });
+      await FileHandler.extractArchive(archivePath, extractDirectory);
+
+      // npm tarballs wrap their contents in a single folder, usually "package"
+      const [rootFolder] = fs.readdirSync(extractDirectory);
+      fs.mkdirSync(path.dirname(packageDirectory), { recursive: true });
+      try {
+        fs.renameSync(
+          path.join(extractDirectory, rootFolder),
+          packageDirectory,
+        );
+      } catch (error) {
+        // Another build may have cached the same version in the meantime
+        if (!fs.existsSync(path.join(packageDirectory, "package.json"))) {
+          throw error;
+        }
+      }
+    } finally {
+      await FileHandler.cleanup([archivePath, extractDirectory]);
+    }
+
+    console.log(`Cached ${name}@${version} in ${packageDirectory}`);
+    return packageDirectory;
+  }
+
+  private readPackageFiles(
+    dir: string,
+    prefix: string,
+    files: Record<string, string>,
+  ) {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (entry.name !== "node_modules") {
+          this.readPackageFiles(fullPath, `${prefix}/${entry.name}`, files);
+        }
+      } else if (
+        entry.isFile() &&
+        PACKAGE_FILE_EXTENSIONS.includes(path.extname(entry.name))
+      ) {
+        files[`${prefix}/${entry.name}`] = fs.readFileSync(fullPath, "utf-8");
+      }
+    }
+  }
+}
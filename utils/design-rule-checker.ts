@@ -0,0 +1,713 @@
+import type {
+  DrcRule,
+  DrcViolation,
+  ProjectConfig,
+  SnapshotResult,
+} from "../shared/types";
+import { Connectivity } from "./connectivity";
+
+export type DesignRules = ProjectConfig["drc"];
+
+export const DRC_RULE_TITLES: Record<DrcRule, string> = {
+  trace_width: "Trace width",
+  clearance: "Clearance",
+  hole_to_edge: "Hole to edge",
+  component_outside_board: "Outside board",
+};
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Copper is modelled as capsules (trace segments, round pads, vias) or
+// convex polygons (rect pads, which may be rotated)
+type CopperShape = {
+  net: string;
+  label: string;
+  layers: string[];
+  bounds: Bounds;
+} & (
+  | { kind: "capsule"; a: Point; b: Point; radius: number }
+  | { kind: "polygon"; corners: Point[] }
+);
+
+interface Hole {
+  center: Point;
+  radius: number;
+  label: string;
+}
+
+// Keeps one noisy rule from burying the others in reports
+const MAX_VIOLATIONS_PER_RULE = 50;
+const EPSILON = 1e-6;
+const ALL_LAYERS = ["*"];
+
+/**
+ * Basic PCB design rule checks on a board's circuit JSON: trace width,
+ * copper clearance between nets, hole-to-edge distance and components placed
+ * outside the board outline. All distances are in mm.
+ */
+export class DesignRuleChecker {
+  private elementsByType = new Map<string, any[]>();
+  private rules: DesignRules;
+  private violations: DrcViolation[] = [];
+  private connectivity: Connectivity;
+  private sourceNames = new Map<string, string>();
+  private pcbPortToSourcePort = new Map<string, string>();
+  private sourcePortNames = new Map<string, string>();
+  private pcbTraceNets = new Map<string, string>();
+  private sourceTraceNames = new Map<string, string>();
+  // Net of the trace route points at each location, for vias without a trace
+  private routePointNets = new Map<string, string>();
+
+  private constructor(circuitJson: any[], rules: DesignRules) {
+    for (const element of circuitJson) {
+      if (!element?.type) continue;
+      if (!this.elementsByType.has(element.type)) {
+        this.elementsByType.set(element.type, []);
+      }
+      this.elementsByType.get(element.type)!.push(element);
+    }
+    this.rules = rules;
+    this.connectivity = Connectivity.fromSourceTraces(circuitJson);
+  }
+
+  static check(circuitJson: unknown, rules: DesignRules): DrcViolation[] {
+    if (!Array.isArray(circuitJson)) return [];
+
+    const checker = new DesignRuleChecker(circuitJson, rules);
+    checker.buildNets();
+    checker.checkTraceWidths();
+    checker.checkClearances();
+
+    const boards = checker.getBoardOutlines();
+    if (boards.length > 0) {
+      checker.checkHoleToEdge(boards);
+      checker.checkComponentsInsideBoard(boards);
+    }
+
+    return checker.violations;
+  }
+
+  static count(snapshot: SnapshotResult): number {
+    return snapshot.circuitFiles.reduce(
+      (sum, file) => sum + (file.drc?.violations.length ?? 0),
+      0,
+    );
+  }
+
+  /** Whether the repository asked for DRC violations to fail the check */
+  static shouldFailCheck(snapshot: SnapshotResult): boolean {
+    return (
+      snapshot.config?.checks.failOnDrcViolations === true &&
+      this.count(snapshot) > 0
+    );
+  }
+
+  /** Markdown table of every violation, used in check run output */
+  static toMarkdownTable(snapshot: SnapshotResult): string {
+    const rows = snapshot.circuitFiles.flatMap((file) =>
+      (file.drc?.violations ?? []).map(
+        (violation) =>
+          `| \`${file.path}\` | ${DRC_RULE_TITLES[violation.rule]} | ${violation.message} |`,
+      ),
+    );
+
+    return rows.length > 0
+      ? `| File | Rule | Violation |\n| --- | --- | --- |\n${rows.join("\n")}`
+      : "";
+  }
+
+  private ofType(type: string): any[] {
+    return this.elementsByType.get(type) ?? [];
+  }
+
+  private addViolation(rule: DrcRule, violation: Omit<DrcViolation, "rule">) {
+    const count = this.violations.filter((v) => v.rule === rule).length;
+    if (count >= MAX_VIOLATIONS_PER_RULE) return;
+
+    this.violations.push({ rule, ...violation });
+    if (violation.measured !== undefined) {
+      this.violations[this.violations.length - 1].measured = round(
+        violation.measured,
+      );
+    }
+  }
+
+  /** Groups ports, traces and nets that are electrically connected */
+  private buildNets() {
+    for (const component of this.ofType("source_component")) {
+      this.sourceNames.set(component.source_component_id, component.name);
+    }
+    for (const component of this.ofType("pcb_component")) {
+      const name = this.sourceNames.get(component.source_component_id);
+      if (name) this.sourceNames.set(component.pcb_component_id, name);
+    }
+    for (const port of this.ofType("pcb_port")) {
+      this.pcbPortToSourcePort.set(port.pcb_port_id, port.source_port_id);
+    }
+
+    for (const port of this.ofType("source_port")) {
+      this.sourcePortNames.set(port.source_port_id, port.name);
+      if (port.subcircuit_connectivity_map_key) {
+        this.connectivity.union(
+          port.source_port_id,
+          `connectivity:${port.subcircuit_connectivity_map_key}`,
+        );
+      }
+    }
+
+    for (const trace of this.ofType("source_trace")) {
+      if (trace.display_name) {
+        this.sourceTraceNames.set(trace.source_trace_id, trace.display_name);
+      }
+      if (trace.subcircuit_connectivity_map_key) {
+        this.connectivity.union(
+          `source_trace:${trace.source_trace_id}`,
+          `connectivity:${trace.subcircuit_connectivity_map_key}`,
+        );
+      }
+    }
+
+    for (const trace of this.ofType("pcb_trace")) {
+      const traceKey = `pcb_trace:${trace.pcb_trace_id}`;
+      if (trace.source_trace_id) {
+        this.connectivity.union(
+          traceKey,
+          `source_trace:${trace.source_trace_id}`,
+        );
+      }
+      for (const point of trace.route ?? []) {
+        for (const portId of [point.start_pcb_port_id, point.end_pcb_port_id]) {
+          if (portId) {
+            this.connectivity.union(traceKey, this.getPortNetKey(portId));
+          }
+        }
+      }
+    }
+
+    for (const trace of this.ofType("pcb_trace")) {
+      const net = this.connectivity.find(`pcb_trace:${trace.pcb_trace_id}`);
+      this.pcbTraceNets.set(trace.pcb_trace_id, net);
+      for (const point of trace.route ?? []) {
+        this.routePointNets.set(pointKey(point), net);
+      }
+    }
+  }
+
+  /**
+   * Net of a via: the trace it was placed for, else the trace whose route
+   * passes through its center. Vias on no route are their own net.
+   */
+  private getViaNet(via: any): string {
+    return (
+      (via.pcb_trace_id && this.pcbTraceNets.get(via.pcb_trace_id)) ||
+      this.routePointNets.get(pointKey(via)) ||
+      `unconnected:${via.pcb_via_id}`
+    );
+  }
+
+  private getPortNetKey(pcbPortId: string): string {
+    return this.pcbPortToSourcePort.get(pcbPortId) ?? `pcb_port:${pcbPortId}`;
+  }
+
+  /** Net of a pad or hole; unconnected copper is its own net */
+  private getPadNet(element: any, ownId: string): string {
+    return element.pcb_port_id
+      ? this.connectivity.find(this.getPortNetKey(element.pcb_port_id))
+      : `unconnected:${ownId}`;
+  }
+
+  private describeComponentCopper(element: any, kind: string): string {
+    const name = this.sourceNames.get(element.pcb_component_id);
+    if (!name) return kind;
+
+    const portName = this.sourcePortNames.get(
+      this.pcbPortToSourcePort.get(element.pcb_port_id) ?? "",
+    );
+    return portName ? `${kind} ${name}.${portName}` : `${kind} of ${name}`;
+  }
+
+  private checkTraceWidths() {
+    for (const trace of this.ofType("pcb_trace")) {
+      const wires = (trace.route ?? []).filter(
+        (point: any) => point.route_type === "wire",
+      );
+      if (wires.length === 0) continue;
+
+      const narrowest = wires.reduce((min: any, point: any) =>
+        point.width < min.width ? point : min,
+      );
+      if (narrowest.width < this.rules.minTraceWidth - EPSILON) {
+        this.addViolation("trace_width", {
+          message: `${this.describeTrace(trace)} is ${format(narrowest.width)} wide, below the ${format(this.rules.minTraceWidth)} minimum`,
+          measured: narrowest.width,
+          required: this.rules.minTraceWidth,
+          location: { x: narrowest.x, y: narrowest.y },
+        });
+      }
+    }
+  }
+
+  private describeTrace(trace: any): string {
+    return `Trace ${this.sourceTraceNames.get(trace.source_trace_id) ?? trace.pcb_trace_id}`;
+  }
+
+  private collectCopper(): CopperShape[] {
+    const shapes: CopperShape[] = [];
+
+    for (const trace of this.ofType("pcb_trace")) {
+      const net = this.pcbTraceNets.get(trace.pcb_trace_id)!;
+      const label = this.describeTrace(trace);
+      const route: any[] = trace.route ?? [];
+
+      for (let i = 0; i < route.length - 1; i++) {
+        const start = route[i];
+        const end = route[i + 1];
+        if (
+          start.route_type !== "wire" ||
+          end.route_type !== "wire" ||
+          start.layer !== end.layer
+        ) {
+          continue;
+        }
+        shapes.push(
+          capsule(net, label, [start.layer], start, end, start.width / 2),
+        );
+      }
+    }
+
+    for (const via of this.ofType("pcb_via")) {
+      shapes.push(
+        capsule(
+          this.getViaNet(via),
+          "Via",
+          via.layers ?? ALL_LAYERS,
+          via,
+          via,
+          via.outer_diameter / 2,
+        ),
+      );
+    }
+
+    for (const pad of this.ofType("pcb_smtpad")) {
+      const net = this.getPadNet(pad, pad.pcb_smtpad_id);
+      const label = this.describeComponentCopper(pad, "Pad");
+      if (pad.shape === "circle") {
+        shapes.push(capsule(net, label, [pad.layer], pad, pad, pad.radius));
+      } else if (typeof pad.width === "number") {
+        shapes.push(
+          rect(
+            net,
+            label,
+            [pad.layer],
+            pad,
+            pad.width,
+            pad.height,
+            pad.ccw_rotation,
+          ),
+        );
+      }
+    }
+
+    for (const hole of this.ofType("pcb_plated_hole")) {
+      const net = this.getPadNet(hole, hole.pcb_plated_hole_id);
+      const label = this.describeComponentCopper(hole, "Plated hole");
+      const layers = hole.layers ?? ALL_LAYERS;
+      if (hole.shape === "circle") {
+        shapes.push(
+          capsule(net, label, layers, hole, hole, hole.outer_diameter / 2),
+        );
+      } else if (typeof hole.rect_pad_width === "number") {
+        shapes.push(
+          rect(
+            net,
+            label,
+            layers,
+            hole,
+            hole.rect_pad_width,
+            hole.rect_pad_height,
+            hole.rect_ccw_rotation ?? hole.ccw_rotation,
+          ),
+        );
+      } else if (typeof hole.outer_width === "number") {
+        shapes.push(
+          rect(
+            net,
+            label,
+            layers,
+            hole,
+            hole.outer_width,
+            hole.outer_height,
+            hole.ccw_rotation,
+          ),
+        );
+      }
+    }
+
+    return shapes;
+  }
+
+  private checkClearances() {
+    const shapes = this.collectCopper();
+    const reported = new Set<string>();
+    const margin = this.rules.minClearance;
+
+    for (let i = 0; i < shapes.length; i++) {
+      for (let j = i + 1; j < shapes.length; j++) {
+        const a = shapes[i];
+        const b = shapes[j];
+        if (a.net === b.net || !sharesLayer(a, b)) continue;
+        if (!boundsWithin(a.bounds, b.bounds, margin)) continue;
+
+        const clearance = shapeDistance(a, b);
+        if (clearance >= this.rules.minClearance - EPSILON) continue;
+
+        // Neighbouring segments of the same two items are reported once
+        const key = [a.label, b.label].sort().join("|");
+        if (reported.has(key)) continue;
+        reported.add(key);
+
+        this.addViolation("clearance", {
+          message:
+            clearance <= 0
+              ? `${a.label} overlaps ${b.label}`
+              : `${a.label} is ${format(clearance)} from ${b.label}, below the ${format(this.rules.minClearance)} minimum`,
+          measured: Math.max(clearance, 0),
+          required: this.rules.minClearance,
+          location: shapeCenter(a),
+        });
+      }
+    }
+  }
+
+  private getBoardOutlines(): Point[][] {
+    return this.ofType("pcb_board").map((board) => {
+      if (Array.isArray(board.outline) && board.outline.length >= 3) {
+        return board.outline;
+      }
+
+      return rectCorners(board.center, board.width, board.height);
+    });
+  }
+
+  private collectHoles(): Hole[] {
+    const holes: Hole[] = [];
+
+    for (const hole of this.ofType("pcb_hole")) {
+      holes.push({
+        center: hole,
+        radius:
+          hole.hole_shape === "oval"
+            ? Math.max(hole.hole_width, hole.hole_height) / 2
+            : hole.hole_diameter / 2,
+        label: "Hole",
+      });
+    }
+    for (const hole of this.ofType("pcb_plated_hole")) {
+      holes.push({
+        center: hole,
+        radius:
+          typeof hole.hole_diameter === "number"
+            ? hole.hole_diameter / 2
+            : Math.max(hole.hole_width, hole.hole_height) / 2,
+        label: this.describeComponentCopper(hole, "Plated hole"),
+      });
+    }
+    for (const via of this.ofType("pcb_via")) {
+      holes.push({ center: via, radius: via.hole_diameter / 2, label: "Via" });
+    }
+
+    return holes.filter((hole) => Number.isFinite(hole.radius));
+  }
+
+  private checkHoleToEdge(boards: Point[][]) {
+    for (const hole of this.collectHoles()) {
+      const board =
+        boards.find((outline) => pointInPolygon(hole.center, outline)) ?? null;
+
+      if (!board) {
+        this.addViolation("hole_to_edge", {
+          message: `${hole.label} at ${formatPoint(hole.center)} is outside the board`,
+          measured: 0,
+          required: this.rules.minHoleToEdge,
+          location: { x: hole.center.x, y: hole.center.y },
+        });
+        continue;
+      }
+
+      const distance = distanceToOutline(hole.center, board) - hole.radius;
+      if (distance < this.rules.minHoleToEdge - EPSILON) {
+        this.addViolation("hole_to_edge", {
+          message: `${hole.label} at ${formatPoint(hole.center)} is ${format(Math.max(distance, 0))} from the board edge, below the ${format(this.rules.minHoleToEdge)} minimum`,
+          measured: Math.max(distance, 0),
+          required: this.rules.minHoleToEdge,
+          location: { x: hole.center.x, y: hole.center.y },
+        });
+      }
+    }
+  }
+
+  private checkComponentsInsideBoard(boards: Point[][]) {
+    for (const component of this.ofType("pcb_component")) {
+      if (!component.center) continue;
+
+      const corners = rectCorners(
+        component.center,
+        component.width ?? 0,
+        component.height ?? 0,
+      );
+
+      const inside = boards.some((outline) =>
+        corners.every(
+          (corner) =>
+            pointInPolygon(corner, outline) ||
+            distanceToOutline(corner, outline) < EPSILON,
+        ),
+      );
+      if (!inside) {
+        const name =
+          this.sourceNames.get(component.pcb_component_id) ??
+          component.pcb_component_id;
+        this.addViolation("component_outside_board", {
+          message: `Component ${name} at ${formatPoint(component.center)} extends outside the board`,
+          location: { x: component.center.x, y: component.center.y },
+        });
+      }
+    }
+  }
+}
+
+function capsule(
+  net: string,
+  label: string,
+  layers: string[],
+  a: Point,
+  b: Point,
+  radius: number,
+): CopperShape {
+  return {
+    kind: "capsule",
+    net,
+    label,
+    layers,
+    a: { x: a.x, y: a.y },
+    b: { x: b.x, y: b.y },
+    radius,
+    bounds: {
+      minX: Math.min(a.x, b.x) - radius,
+      minY: Math.min(a.y, b.y) - radius,
+      maxX: Math.max(a.x, b.x) + radius,
+      maxY: Math.max(a.y, b.y) + radius,
+    },
+  };
+}
+
+function rect(
+  net: string,
+  label: string,
+  layers: string[],
+  center: Point,
+  width: number,
+  height: number,
+  ccwRotationDegrees = 0,
+): CopperShape {
+  const corners = rectCorners(center, width, height, ccwRotationDegrees);
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+
+  return {
+    kind: "polygon",
+    net,
+    label,
+    layers,
+    corners,
+    bounds: {
+      minX: Math.min(...xs),
+      minY: Math.min(...ys),
+      maxX: Math.max(...xs),
+      maxY: Math.max(...ys),
+    },
+  };
+}
+
+function sharesLayer(a: CopperShape, b: CopperShape): boolean {
+  if (a.layers === ALL_LAYERS || b.layers === ALL_LAYERS) return true;
+  return a.layers.some((layer) => b.layers.includes(layer));
+}
+
+function boundsWithin(a: Bounds, b: Bounds, margin: number): boolean {
+  return (
+    a.minX - margin <= b.maxX &&
+    b.minX - margin <= a.maxX &&
+    a.minY - margin <= b.maxY &&
+    b.minY - margin <= a.maxY
+  );
+}
+
+function shapeCenter(shape: CopperShape): Point {
+  if (shape.kind === "capsule") {
+    return { x: (shape.a.x + shape.b.x) / 2, y: (shape.a.y + shape.b.y) / 2 };
+  }
+
+  const { corners } = shape;
+  return {
+    x: corners.reduce((sum, corner) => sum + corner.x, 0) / corners.length,
+    y: corners.reduce((sum, corner) => sum + corner.y, 0) / corners.length,
+  };
+}
+
+/** Edge-to-edge distance between two copper shapes, <= 0 when they touch */
+function shapeDistance(a: CopperShape, b: CopperShape): number {
+  if (a.kind === "capsule" && b.kind === "capsule") {
+    return segmentDistance(a.a, a.b, b.a, b.b) - a.radius - b.radius;
+  }
+  if (a.kind === "polygon" && b.kind === "polygon") {
+    return polygonDistance(a.corners, b.corners);
+  }
+
+  const circle = (a.kind === "capsule" ? a : b) as Extract<
+    CopperShape,
+    { kind: "capsule" }
+  >;
+  const polygon = (a.kind === "polygon" ? a : b) as Extract<
+    CopperShape,
+    { kind: "polygon" }
+  >;
+  return (
+    segmentPolygonDistance(circle.a, circle.b, polygon.corners) - circle.radius
+  );
+}
+
+function pointSegmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared),
+        );
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const cross = (o: Point, p: Point, q: Point) =>
+    (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+  if (segmentsIntersect(a, b, c, d)) return 0;
+  return Math.min(
+    pointSegmentDistance(a, c, d),
+    pointSegmentDistance(b, c, d),
+    pointSegmentDistance(c, a, b),
+    pointSegmentDistance(d, a, b),
+  );
+}
+
+function polygonEdges(corners: Point[]): [Point, Point][] {
+  return corners.map((corner, i) => [
+    corner,
+    corners[(i + 1) % corners.length],
+  ]);
+}
+
+function segmentPolygonDistance(a: Point, b: Point, corners: Point[]): number {
+  if (pointInPolygon(a, corners) || pointInPolygon(b, corners)) return 0;
+
+  return Math.min(
+    ...polygonEdges(corners).map(([c, d]) => segmentDistance(a, b, c, d)),
+  );
+}
+
+function polygonDistance(a: Point[], b: Point[]): number {
+  if (
+    a.some((corner) => pointInPolygon(corner, b)) ||
+    b.some((corner) => pointInPolygon(corner, a))
+  ) {
+    return 0;
+  }
+
+  return Math.min(
+    ...polygonEdges(a).map(([start, end]) =>
+      segmentPolygonDistance(start, end, b),
+    ),
+  );
+}
+
+function rectCorners(
+  center: Point,
+  width: number,
+  height: number,
+  ccwRotationDegrees = 0,
+): Point[] {
+  const angle = (ccwRotationDegrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  return [
+    { x: -width / 2, y: -height / 2 },
+    { x: width / 2, y: -height / 2 },
+    { x: width / 2, y: height / 2 },
+    { x: -width / 2, y: height / 2 },
+  ].map(({ x, y }) => ({
+    x: center.x + x * cos - y * sin,
+    y: center.y + x * sin + y * cos,
+  }));
+}
+
+function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function distanceToOutline(point: Point, polygon: Point[]): number {
+  return Math.min(
+    ...polygon.map((vertex, i) =>
+      pointSegmentDistance(point, vertex, polygon[(i + 1) % polygon.length]),
+    ),
+  );
+}
+
+/** Location key of a point, rounded to 1µm */
+function pointKey(point: Point): string {
+  return `${Math.round(point.x * 1000)},${Math.round(point.y * 1000)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function format(value: number): string {
+  return `${round(value)}mm`;
+}
+
+function formatPoint(point: Point): string {
+  return `(${round(point.x)}, ${round(point.y)})`;
+}
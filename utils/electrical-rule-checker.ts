@@ -0,0 +1,190 @@
+import type { ErcIssue } from "../shared/types";
+import { Connectivity } from "./connectivity";
+
+// Components that can drive a power net on their own
+const POWER_SOURCE_FTYPES = [
+  "simple_power_source",
+  "simple_battery",
+  "simple_pin_header",
+];
+// Regulator and supply outputs on chips, e.g. VOUT or OUT
+const POWER_OUTPUT_PORT_PATTERN = /^v?out\d*$/i;
+const POWER_NET_NAME_PATTERN = /^(v\d|vcc|vdd|vbus|vin|vbat|\d+v\d*)/i;
+const NO_CONNECT_PORT_PATTERN = /^(nc|dnc|n\/c)\d*$/i;
+
+interface ConnectedGroup {
+  portIds: Set<string>;
+  netIds: Set<string>;
+}
+
+/**
+ * Electrical rule checks on the `source_*` elements of a board's circuit
+ * JSON: unconnected pins, nets with a single connection, power nets nothing
+ * drives and distinct nets shorted together by traces.
+ */
+export class ElectricalRuleChecker {
+  private elements: any[];
+  private connectivity: Connectivity;
+  private componentsById = new Map<string, any>();
+  private portsById = new Map<string, any>();
+  private netsById = new Map<string, any>();
+  private issues: ErcIssue[] = [];
+
+  private constructor(circuitJson: any[]) {
+    this.elements = circuitJson;
+    this.connectivity = Connectivity.fromSourceTraces(circuitJson);
+  }
+
+  static check(circuitJson: unknown): ErcIssue[] {
+    if (!Array.isArray(circuitJson)) return [];
+
+    const checker = new ElectricalRuleChecker(circuitJson);
+    checker.index();
+    const groups = checker.buildConnectedGroups();
+
+    checker.checkUnconnectedPins(groups);
+    checker.checkSingleConnectionNets(groups);
+    checker.checkPowerNetsWithoutSource(groups);
+    checker.checkShortedNets(groups);
+
+    return checker.issues;
+  }
+
+  private ofType(type: string): any[] {
+    return this.elements.filter((element) => element?.type === type);
+  }
+
+  private index() {
+    for (const component of this.ofType("source_component")) {
+      this.componentsById.set(component.source_component_id, component);
+    }
+    for (const port of this.ofType("source_port")) {
+      this.portsById.set(port.source_port_id, port);
+    }
+    for (const net of this.ofType("source_net")) {
+      this.netsById.set(net.source_net_id, net);
+    }
+  }
+
+  /** Ports and nets joined by source traces, keyed by their group root */
+  private buildConnectedGroups(): Map<string, ConnectedGroup> {
+    const { tracedIds } = this.connectivity;
+
+    const groups = new Map<string, ConnectedGroup>();
+    const getGroup = (id: string) => {
+      const root = this.connectivity.find(id);
+      if (!groups.has(root)) {
+        groups.set(root, { portIds: new Set(), netIds: new Set() });
+      }
+      return groups.get(root)!;
+    };
+
+    for (const portId of this.portsById.keys()) {
+      if (tracedIds.has(portId)) getGroup(portId).portIds.add(portId);
+    }
+    for (const netId of this.netsById.keys()) {
+      if (tracedIds.has(netId)) getGroup(netId).netIds.add(netId);
+    }
+
+    return groups;
+  }
+
+  private describePort(port: any): string {
+    const component = this.componentsById.get(port.source_component_id);
+    return component ? `${component.name}.${port.name}` : port.name;
+  }
+
+  private describeNets(netIds: Iterable<string>): string[] {
+    const names = [...netIds].map((id) => this.netsById.get(id)?.name ?? id);
+    return [...new Set(names)].sort();
+  }
+
+  private checkUnconnectedPins(groups: Map<string, ConnectedGroup>) {
+    const connectedPortIds = new Set(
+      [...groups.values()].flatMap((group) => [...group.portIds]),
+    );
+
+    for (const port of this.portsById.values()) {
+      if (connectedPortIds.has(port.source_port_id)) continue;
+
+      const hints = [port.name, ...(port.port_hints ?? [])];
+      if (hints.some((hint) => NO_CONNECT_PORT_PATTERN.test(String(hint)))) {
+        continue;
+      }
+
+      const component = this.componentsById.get(port.source_component_id);
+      this.issues.push({
+        rule: "unconnected_pin",
+        severity: "warning",
+        message: `Pin ${this.describePort(port)} is not connected`,
+        componentName: component?.name,
+      });
+    }
+  }
+
+  private checkSingleConnectionNets(groups: Map<string, ConnectedGroup>) {
+    for (const group of groups.values()) {
+      if (group.netIds.size === 0 || group.portIds.size !== 1) continue;
+
+      const [portId] = group.portIds;
+      const netNames = this.describeNets(group.netIds);
+      this.issues.push({
+        rule: "single_connection_net",
+        severity: "warning",
+        message: `Net ${netNames.join(", ")} only connects to ${this.describePort(this.portsById.get(portId))}`,
+        netNames,
+      });
+    }
+  }
+
+  private isPowerNet(net: any): boolean {
+    return (
+      net.is_power === true ||
+      (net.is_ground !== true && POWER_NET_NAME_PATTERN.test(net.name ?? ""))
+    );
+  }
+
+  private isPowerSourcePort(port: any): boolean {
+    const component = this.componentsById.get(port.source_component_id);
+    return (
+      POWER_SOURCE_FTYPES.includes(component?.ftype) ||
+      POWER_OUTPUT_PORT_PATTERN.test(port.name ?? "")
+    );
+  }
+
+  private checkPowerNetsWithoutSource(groups: Map<string, ConnectedGroup>) {
+    for (const group of groups.values()) {
+      const powerNets = [...group.netIds].filter((id) =>
+        this.isPowerNet(this.netsById.get(id)),
+      );
+      if (powerNets.length === 0) continue;
+
+      const driven = [...group.portIds].some((id) =>
+        this.isPowerSourcePort(this.portsById.get(id)),
+      );
+      if (!driven) {
+        const netNames = this.describeNets(powerNets);
+        this.issues.push({
+          rule: "power_net_without_source",
+          severity: "warning",
+          message: `Power net ${netNames.join(", ")} has no power source, regulator output or connector`,
+          netNames,
+        });
+      }
+    }
+  }
+
+  private checkShortedNets(groups: Map<string, ConnectedGroup>) {
+    for (const group of groups.values()) {
+      const netNames = this.describeNets(group.netIds);
+      if (netNames.length < 2) continue;
+
+      this.issues.push({
+        rule: "shorted_nets",
+        severity: "error",
+        message: `Nets ${netNames.join(", ")} are shorted together`,
+        netNames,
+      });
+    }
+  }
+}
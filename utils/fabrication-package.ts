@@ -0,0 +1,76 @@
+import JSZip from "jszip";
+import {
+  convertSoupToExcellonDrillCommands,
+  convertSoupToGerberCommands,
+  stringifyExcellonDrill,
+  stringifyGerberCommandLayers,
+} from "circuit-json-to-gerber";
+import { BomGenerator } from "./bom-generator";
+import { PickAndPlaceGenerator } from "./pick-and-place-generator";
+import { NetlistGenerator } from "./netlist-generator";
+
+/**
+ * Zip a fab house can consume for one board: a Gerber file per layer,
+ * plated and unplated Excellon drill files, the BOM and centroid files for
+ * assembly and the netlist for electrical testing.
+ */
+export class FabricationPackage {
+  static async build(circuitJson: unknown, baseName: string): Promise<Buffer> {
+    if (!Array.isArray(circuitJson)) {
+      throw new Error("Circuit JSON must be an array of circuit elements");
+    }
+
+    const zip = new JSZip();
+
+    const gerberLayers = stringifyGerberCommandLayers(
+      convertSoupToGerberCommands(circuitJson as any),
+    );
+    for (const [layerName, content] of Object.entries(gerberLayers)) {
+      zip.file(`gerber/${layerName}.gbr`, content);
+    }
+
+    zip.file(
+      "drill/plated.drl",
+      stringifyExcellonDrill(
+        convertSoupToExcellonDrillCommands({
+          circuitJson: circuitJson as any,
+          is_plated: true,
+        }),
+      ),
+    );
+    zip.file(
+      "drill/unplated.drl",
+      stringifyExcellonDrill(
+        convertSoupToExcellonDrillCommands({
+          circuitJson: circuitJson as any,
+          is_plated: false,
+        }),
+      ),
+    );
+
+    zip.file(
+      `assembly/${baseName}.bom.csv`,
+      BomGenerator.toCsv(BomGenerator.generate(circuitJson)),
+    );
+    zip.file(
+      `assembly/${baseName}.cpl.csv`,
+      PickAndPlaceGenerator.toCsv(PickAndPlaceGenerator.generate(circuitJson)),
+    );
+
+    const netlist = NetlistGenerator.generate(circuitJson);
+    zip.file(
+      `netlist/${baseName}.net`,
+      NetlistGenerator.toKicad(netlist, baseName),
+    );
+    zip.file(
+      `netlist/${baseName}.netlist.json`,
+      JSON.stringify(NetlistGenerator.toJsonMap(netlist), null, 2),
+    );
+
+    return zip.generateAsync({
+      type: "nodebuffer",
+      compression: "DEFLATE",
+      compressionOptions: { level: 9 },
+    });
+  }
+}
@@ -0,0 +1,23 @@
+import { convertCircuitJsonToGltf } from "circuit-json-to-gltf";
+
+/**
+ * Binary glTF (GLB) model of a board, with the board, its copper and
+ * silkscreen textures and the 3D models of its components.
+ */
+export class GlbExporter {
+  static async export(circuitJson: unknown): Promise<Buffer> {
+    if (!Array.isArray(circuitJson)) {
+      throw new Error("Circuit JSON must be an array of circuit elements");
+    }
+
+    const glb = await convertCircuitJsonToGltf(circuitJson as any, {
+      format: "glb",
+    });
+
+    if (!(glb instanceof ArrayBuffer)) {
+      throw new Error("GLB conversion did not return binary data");
+    }
+
+    return Buffer.from(glb);
+  }
+}
@@ -0,0 +1,59 @@
+import JSZip from "jszip";
+import {
+  CircuitJsonToKicadPcbConverter,
+  CircuitJsonToKicadProConverter,
+  CircuitJsonToKicadSchConverter,
+} from "circuit-json-to-kicad";
+
+/**
+ * Converts a board's circuit JSON into a KiCad project: the PCB, the
+ * schematic (one file per sheet for hierarchical designs) and the
+ * .kicad_pro tying them together, zipped in a folder named after the board.
+ */
+export class KicadExporter {
+  static async export(
+    circuitJson: unknown,
+    projectName: string,
+  ): Promise<Buffer> {
+    if (!Array.isArray(circuitJson)) {
+      throw new Error("Circuit JSON must be an array of circuit elements");
+    }
+
+    const pcbFilename = `${projectName}.kicad_pcb`;
+    const schematicFilename = `${projectName}.kicad_sch`;
+
+    const pcbConverter = new CircuitJsonToKicadPcbConverter(
+      circuitJson as any,
+      { projectName },
+    );
+    pcbConverter.runUntilFinished();
+
+    const schConverter = new CircuitJsonToKicadSchConverter(circuitJson as any);
+    schConverter.runUntilFinished();
+
+    const proConverter = new CircuitJsonToKicadProConverter(
+      circuitJson as any,
+      {
+        projectName,
+        pcbFilename,
+        schematicFilename,
+        schematicSheetPlan: schConverter.schematicSheetPlan,
+      },
+    );
+    proConverter.runUntilFinished();
+
+    const zip = new JSZip();
+    const folder = zip.folder(projectName)!;
+    folder.file(pcbFilename, pcbConverter.getOutputString());
+    for (const file of schConverter.getOutputFiles({ schematicFilename })) {
+      folder.file(file.filename, file.content);
+    }
+    folder.file(`${projectName}.kicad_pro`, proConverter.getOutputString());
+
+    return zip.generateAsync({
+      type: "nodebuffer",
+      compression: "DEFLATE",
+      compressionOptions: { level: 9 },
+    });
+  }
+}
@@ -0,0 +1,159 @@
+import { BomGenerator } from "./bom-generator";
+import { Connectivity } from "./connectivity";
+import { compareDesignators } from "./csv";
+
+export interface NetlistPin {
+  designator: string;
+  /** Pin number as placed on the footprint, or the port name without one */
+  pin: string;
+  pinName: string;
+}
+
+export interface NetlistNet {
+  name: string;
+  pins: NetlistPin[];
+}
+
+export interface NetlistComponent {
+  designator: string;
+  value?: string;
+  footprint?: string;
+}
+
+export interface Netlist {
+  components: NetlistComponent[];
+  nets: NetlistNet[];
+}
+
+/**
+ * Board connectivity derived from the `source_trace` and `source_port`
+ * elements of a circuit JSON. Ports joined by traces, directly or through a
+ * named net, form one net; nets of the same name are merged.
+ */
+export class NetlistGenerator {
+  static generate(circuitJson: unknown): Netlist {
+    if (!Array.isArray(circuitJson)) return { components: [], nets: [] };
+
+    const connectivity = Connectivity.fromSourceTraces(circuitJson);
+    const ofType = (type: string) =>
+      circuitJson.filter((element) => element?.type === type);
+
+    const componentsById = new Map<string, any>(
+      ofType("source_component").map((component) => [
+        component.source_component_id,
+        component,
+      ]),
+    );
+    const netsById = new Map<string, any>(
+      ofType("source_net").map((net) => [net.source_net_id, net]),
+    );
+
+    const groups = new Map<
+      string,
+      { netNames: Set<string>; pins: NetlistPin[] }
+    >();
+    const getGroup = (id: string) => {
+      const root = connectivity.find(id);
+      if (!groups.has(root)) {
+        groups.set(root, { netNames: new Set(), pins: [] });
+      }
+      return groups.get(root)!;
+    };
+
+    for (const port of ofType("source_port")) {
+      if (!connectivity.tracedIds.has(port.source_port_id)) continue;
+
+      const component = componentsById.get(port.source_component_id);
+      if (!component) continue;
+
+      getGroup(port.source_port_id).pins.push({
+        designator: component.name,
+        pin: String(port.pin_number ?? port.name),
+        pinName: port.name,
+      });
+    }
+    for (const net of netsById.values()) {
+      if (groups.has(connectivity.find(net.source_net_id))) {
+        getGroup(net.source_net_id).netNames.add(net.name);
+      }
+    }
+
+    const comparePins = (a: NetlistPin, b: NetlistPin) =>
+      compareDesignators(a.designator, b.designator) ||
+      compareDesignators(a.pin, b.pin);
+
+    const components = BomGenerator.generate(circuitJson)
+      .flatMap((line) =>
+        line.designators.map((designator) => ({
+          designator,
+          value: line.value,
+          footprint: line.footprint,
+        })),
+      )
+      .sort((a, b) => compareDesignators(a.designator, b.designator));
+
+    // Virtual parts such as power sources are not on the board
+    const designators = new Set(
+      components.map((component) => component.designator),
+    );
+
+    const nets = [...groups.values()]
+      .map((group) => ({
+        netNames: group.netNames,
+        pins: group.pins.filter((pin) => designators.has(pin.designator)),
+      }))
+      .filter((group) => group.pins.length > 0)
+      .map((group) => {
+        const pins = group.pins.sort(comparePins);
+        // Unnamed nets follow KiCad's naming after their first pin
+        const name =
+          [...group.netNames].sort()[0] ??
+          `Net-(${pins[0].designator}-Pad${pins[0].pin})`;
+        return { name, pins };
+      })
+      .sort((a, b) => compareDesignators(a.name, b.name));
+
+    return { components, nets };
+  }
+
+  /** Plain net name → pins map, with pins as "<designator>.<port name>" */
+  static toJsonMap(netlist: Netlist): Record<string, string[]> {
+    return Object.fromEntries(
+      netlist.nets.map((net) => [
+        net.name,
+        net.pins.map((pin) => `${pin.designator}.${pin.pinName}`),
+      ]),
+    );
+  }
+
+  /** KiCad netlist (S-expression, export version E) */
+  static toKicad(netlist: Netlist, sourceName: string): string {
+    const quote = (value: string) =>
+      `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+    const lines = [
+      '(export (version "E")',
+      `  (design (source ${quote(sourceName)}) (tool "tscircuit-deploy"))`,
+      "  (components",
+    ];
+
+    for (const component of netlist.components) {
+      lines.push(
+        `    (comp (ref ${quote(component.designator)}) (value ${quote(component.value ?? "~")}) (footprint ${quote(component.footprint ?? "")}))`,
+      );
+    }
+
+    lines.push("  )", "  (nets");
+    netlist.nets.forEach((net, index) => {
+      lines.push(`    (net (code "${index + 1}") (name ${quote(net.name)})`);
+      for (const pin of net.pins) {
+        lines.push(
+          `      (node (ref ${quote(pin.designator)}) (pin ${quote(pin.pin)}) (pinfunction ${quote(pin.pinName)}))`,
+        );
+      }
+      lines.push("    )");
+    });
+    lines.push("  )", ")");
+
+    return lines.join("\n").concat("\n");
+  }
+}
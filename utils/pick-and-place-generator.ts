@@ -0,0 +1,72 @@
+import { compareDesignators, formatCsv } from "./csv";
+
+export interface PickAndPlacePlacement {
+  designator: string;
+  /** Component center in mm */
+  x: number;
+  y: number;
+  /** Counter-clockwise rotation in degrees, 0 to 360 */
+  rotation: number;
+  side: "top" | "bottom";
+}
+
+// Column layout accepted by most assembly houses (JLCPCB CPL format)
+const CSV_HEADERS = ["Designator", "Mid X", "Mid Y", "Layer", "Rotation"];
+
+/**
+ * Pick-and-place (centroid) data for assembly, derived from the
+ * `pcb_component` placements of a board's circuit JSON.
+ */
+export class PickAndPlaceGenerator {
+  static generate(circuitJson: unknown): PickAndPlacePlacement[] {
+    if (!Array.isArray(circuitJson)) return [];
+
+    const designators = new Map<string, string>();
+    for (const element of circuitJson) {
+      if (element?.type === "source_component") {
+        designators.set(element.source_component_id, element.name);
+      }
+    }
+
+    const placements: PickAndPlacePlacement[] = [];
+    for (const component of circuitJson) {
+      if (component?.type !== "pcb_component" || !component.center) continue;
+
+      const designator = designators.get(component.source_component_id);
+      if (!designator) continue;
+
+      placements.push({
+        designator,
+        x: this.round(component.center.x),
+        y: this.round(component.center.y),
+        rotation: this.normalizeRotation(component.rotation),
+        side: component.layer === "bottom" ? "bottom" : "top",
+      });
+    }
+
+    return placements.sort((a, b) =>
+      compareDesignators(a.designator, b.designator),
+    );
+  }
+
+  static toCsv(placements: PickAndPlacePlacement[]): string {
+    const rows = placements.map((placement) => [
+      placement.designator,
+      `${placement.x}mm`,
+      `${placement.y}mm`,
+      placement.side === "bottom" ? "Bottom" : "Top",
+      String(placement.rotation),
+    ]);
+
+    return formatCsv([CSV_HEADERS, ...rows]);
+  }
+
+  private static normalizeRotation(rotation: unknown): number {
+    if (typeof rotation !== "number" || !Number.isFinite(rotation)) return 0;
+    return this.round(((rotation % 360) + 360) % 360);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
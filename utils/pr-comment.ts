@@ -1,15 +1,43 @@
-import { SnapshotResult } from "../shared/types";
+import { CircuitView, SnapshotResult } from "../shared/types";
 import { DEPLOY_URL } from "../shared/constants";
+import { DRC_RULE_TITLES } from "./design-rule-checker";
+
+const VIEW_TITLES: Record<CircuitView, string> = {
+  pcb: "PCB View",
+  schematic: "Schematic View",
+  "3d": "3D View",
+};
+
+// Rows listed per warning, error and rule check section
+const MAX_SECTION_ROWS = 50;
+// GitHub rejects comments over 65,536 characters, keep room for the footer
+const MAX_COMMENT_LENGTH = 60_000;
 
 export interface PRCommentData {
   deploymentId: string;
   previewUrl: string;
   buildTime: string;
   circuitCount: number;
-  status: "ready" | "error" | "pending";
+  status: "ready" | "partial" | "error" | "pending";
+  snapshotResult: SnapshotResult;
+}
+
+export interface ProjectCommentData {
+  name: string;
+  path: string;
+  deploymentId: string;
+  previewUrl: string;
+  status: "ready" | "partial" | "error";
   snapshotResult: SnapshotResult;
 }
 
+export interface ProjectsPRCommentData {
+  deploymentId: string;
+  previewUrl: string;
+  buildTime: string;
+  projects: ProjectCommentData[];
+}
+
 export function generatePRComment(data: PRCommentData): string {
   const {
     deploymentId,
@@ -41,68 +69,267 @@ export function generatePRComment(data: PRCommentData): string {
 *Powered by [tscircuit](https://tscircuit.com)*`;
   }
 
-  let comment = `## ✅ tscircuit Deploy Ready
+  const failedFiles = (snapshotResult.circuitFiles || []).filter(
+    (file) => file.status === "error",
+  );
+
+  let comment = `## ${status === "partial" ? "⚠️ tscircuit Deploy Partially Ready" : "✅ tscircuit Deploy Ready"}
 
 **🔗 Preview URL:** ${previewUrl}
 **⏱️ Build Time:** ${buildTime}
-**📊 Circuits:** ${circuitCount}
+**📊 Circuits:** ${failedFiles.length > 0 ? `${circuitCount - failedFiles.length} of ${circuitCount} built` : circuitCount}
 **🆔 Deployment ID:** \`${deploymentId}\`
 
 `;
 
-  if (circuitCount > 0 && snapshotResult.circuitFiles) {
-    comment += `### 🔌 Circuit Files\n\n`;
+  comment += renderCircuitFiles(deploymentId, snapshotResult);
 
-    snapshotResult.circuitFiles.forEach((file, index) => {
-      const fileName = file.name;
-      const pcbSvgUrl = `${DEPLOY_URL}/api/svg/${deploymentId}/${index}/pcb?width=300&height=200`;
-      const schematicSvgUrl = `${DEPLOY_URL}/api/svg/${deploymentId}/${index}/schematic?width=300&height=200`;
-      const pcb3dSvgUrl = `${DEPLOY_URL}/api/svg/${deploymentId}/${index}/3d?width=300&height=200`;
+  if (snapshotResult.metadata) {
+    comment += `### 📊 Build Metadata
 
-      comment += `<details>
-<summary><strong>${fileName}</strong></summary>
+- **Total Files Processed:** ${snapshotResult.metadata.totalFiles}
+- **Failed Files:** ${snapshotResult.metadata.failedFiles ?? 0}
+- **Reused From Cache:** ${snapshotResult.metadata.cachedFiles ?? 0}
+- **Repository Size:** ${formatBytes(snapshotResult.metadata.repositorySize)}
+- **Build Environment:** ${snapshotResult.metadata.buildEnvironment}
+- **tscircuit Version:** ${snapshotResult.metadata.engineVersion ?? "unknown"}
+- **Build Duration:** ${snapshotResult.buildTime}s
+`;
+
+    const dependencies = Object.entries(
+      snapshotResult.metadata.dependencies ?? {},
+    );
+    if (dependencies.length > 0) {
+      comment += `- **Dependencies:** ${dependencies.map(([name, version]) => `\`${name}@${version}\``).join(", ")}\n`;
+    }
+
+    comment += `\n`;
+  }
 
-#### PCB View
-<img src="${pcbSvgUrl}" alt="PCB view of ${fileName}" width="300" />
+  comment += `### 🔍 View Options
 
-#### Schematic View  
-<img src="${schematicSvgUrl}" alt="Schematic view of ${fileName}" width="300" />
+- [🌐 Full Preview](${previewUrl})
+- [📋 Deployment Details](${previewUrl}/details)
+- [🔗 Share Link](${previewUrl}/share)
 
-#### 3D View
-<img src="${pcb3dSvgUrl}" alt="3D view of ${fileName}" width="300" />
+`;
 
-**📈 Circuit Complexity:** ${getCircuitComplexity(file.circuitJson)}
-**📏 File Size:** ${file.metadata?.fileSize ? formatBytes(file.metadata.fileSize) : "Unknown"}
+  return `${truncateComment(comment)}---
+*Powered by [tscircuit](https://tscircuit.com) • Built with ❤️*`;
+}
 
-</details>
+const PROJECT_STATUS_ICONS: Record<ProjectCommentData["status"], string> = {
+  ready: "✅",
+  partial: "⚠️",
+  error: "❌",
+};
+
+export function generateProjectsPRComment(data: ProjectsPRCommentData): string {
+  const { deploymentId, previewUrl, buildTime, projects } = data;
+  const allReady = projects.every((project) => project.status === "ready");
+
+  let comment = `## ${allReady ? "✅ tscircuit Deploy Ready" : "⚠️ tscircuit Deploy Partially Ready"}
 
+**🔗 Preview URL:** ${previewUrl}
+**⏱️ Build Time:** ${buildTime}
+**📦 Projects:** ${projects.length}
+**🆔 Deployment ID:** \`${deploymentId}\`
+
+| Project | Status | Circuits | Preview |
+| --- | --- | --- | --- |
 `;
+
+  projects.forEach((project) => {
+    const circuitFiles = project.snapshotResult.circuitFiles || [];
+    const builtCount = circuitFiles.filter(
+      (file) => file.status !== "error",
+    ).length;
+
+    comment += `| **${project.name}** (\`${project.path}\`) | ${PROJECT_STATUS_ICONS[project.status]} ${project.status} | ${builtCount}/${circuitFiles.length} | [Open](${project.previewUrl}) |\n`;
+  });
+
+  comment += `\n`;
+
+  projects.forEach((project) => {
+    comment += `### ${PROJECT_STATUS_ICONS[project.status]} ${project.name}\n\n`;
+
+    if (project.status === "error") {
+      comment += `**Error:** ${project.snapshotResult.error || "Unknown error occurred"}\n\n`;
+    }
+
+    comment += renderCircuitFiles(
+      project.deploymentId,
+      project.snapshotResult,
+      "####",
+    );
+  });
+
+  return `${truncateComment(comment)}---
+*Powered by [tscircuit](https://tscircuit.com) • Built with ❤️*`;
+}
+
+function renderCircuitFiles(
+  deploymentId: string,
+  snapshotResult: SnapshotResult,
+  headingLevel = "###",
+): string {
+  const failedFiles = (snapshotResult.circuitFiles || []).filter(
+    (file) => file.status === "error",
+  );
+  let comment = "";
+
+  if (snapshotResult.warnings?.length) {
+    comment += `${headingLevel} ⚠️ Build Warnings\n\n`;
+
+    snapshotResult.warnings.slice(0, MAX_SECTION_ROWS).forEach((warning) => {
+      comment += `- ${warning}\n`;
     });
+
+    comment += `${renderMoreRows(snapshotResult.warnings.length)}\n`;
   }
 
-  if (snapshotResult.metadata) {
-    comment += `### 📊 Build Metadata
+  if (failedFiles.length > 0) {
+    comment += `${headingLevel} ❌ Failed Circuit Files\n\n`;
 
-- **Total Files Processed:** ${snapshotResult.metadata.totalFiles}
-- **Repository Size:** ${formatBytes(snapshotResult.metadata.repositorySize)}
-- **Build Environment:** ${snapshotResult.metadata.buildEnvironment}
-- **Build Duration:** ${snapshotResult.buildTime}s
+    failedFiles.slice(0, MAX_SECTION_ROWS).forEach((file) => {
+      comment += `- **${file.displayName || file.name}** (\`${file.path}\`): ${file.error || "Unknown error"}\n`;
+    });
 
+    comment += `${renderMoreRows(failedFiles.length)}\n`;
+  }
+
+  const filesWithDiagnostics = (snapshotResult.circuitFiles || []).filter(
+    (file) => file.diagnostics?.length,
+  );
+  if (filesWithDiagnostics.length > 0) {
+    comment += `${headingLevel} 🚨 Circuit Errors\n\n`;
+
+    filesWithDiagnostics.forEach((file) => {
+      comment += `- **${file.displayName || file.name}** (\`${file.path}\`)\n`;
+      file.diagnostics!.slice(0, MAX_SECTION_ROWS).forEach((diagnostic) => {
+        comment += `  - \`${diagnostic.type}\`${diagnostic.componentName ? ` **${diagnostic.componentName}**` : ""}: ${diagnostic.message}\n`;
+      });
+      if (file.diagnostics!.length > MAX_SECTION_ROWS) {
+        comment += `  - ${renderMoreRows(file.diagnostics!.length)}`;
+      }
+    });
+
+    comment += `\n`;
+  }
+
+  const drcFiles = (snapshotResult.circuitFiles || []).filter(
+    (file) => file.drc,
+  );
+  if (drcFiles.length > 0) {
+    comment += `${headingLevel} 📐 Design Rule Check\n\n`;
+
+    const violations = drcFiles.flatMap((file) =>
+      file.drc!.violations.map((violation) => ({ file, violation })),
+    );
+    if (violations.length === 0) {
+      comment += `✅ No design rule violations\n\n`;
+    } else {
+      comment += `| Board | Rule | Violation |\n| --- | --- | --- |\n`;
+      violations.slice(0, MAX_SECTION_ROWS).forEach(({ file, violation }) => {
+        comment += `| ${file.displayName || file.name} | ${DRC_RULE_TITLES[violation.rule]} | ${violation.message} |\n`;
+      });
+      comment += `\n${renderMoreRows(violations.length)}\n`;
+    }
+  }
+
+  if (snapshotResult.erc?.length) {
+    comment += `${headingLevel} ⚡ Electrical Rule Check\n\n`;
+    comment += `| Board | Errors | Warnings |\n| --- | --- | --- |\n`;
+
+    snapshotResult.erc.forEach((report) => {
+      const file = snapshotResult.circuitFiles.find(
+        (circuitFile) => circuitFile.path === report.path,
+      );
+      const errors = report.issues.filter(
+        (issue) => issue.severity === "error",
+      ).length;
+      comment += `| ${file?.displayName || file?.name || report.path} | ${errors} | ${report.issues.length - errors} |\n`;
+    });
+
+    const issues = snapshotResult.erc.flatMap((report) => report.issues);
+    if (issues.length > 0) {
+      comment += `\n<details>
+<summary>${issues.length} ERC issue${issues.length === 1 ? "" : "s"}</summary>
+
+${issues
+  .slice(0, MAX_SECTION_ROWS)
+  .map(
+    (issue) => `- ${issue.severity === "error" ? "❌" : "⚠️"} ${issue.message}`,
+  )
+  .join("\n")}
+${renderMoreRows(issues.length)}
+</details>
 `;
+    }
+
+    comment += `\n`;
   }
 
-  comment += `### 🔍 View Options
+  if (snapshotResult.circuitFiles?.length > 0) {
+    comment += `${headingLevel} 🔌 Circuit Files\n\n`;
 
-- [🌐 Full Preview](${previewUrl})
-- [📋 Deployment Details](${previewUrl}/details)
-- [🔗 Share Link](${previewUrl}/share)
+    snapshotResult.circuitFiles.forEach((file, index) => {
+      // The index must match the snapshot so the SVG URLs resolve
+      if (file.status === "error") return;
+
+      const fileName = file.displayName || file.name;
+      const views = snapshotResult.config?.views ?? ["pcb", "schematic", "3d"];
+      const viewImages = views
+        .map((view) => {
+          const svgUrl = `${DEPLOY_URL}/api/svg/${deploymentId}/${index}/${view}?width=300&height=200`;
+          return `#### ${VIEW_TITLES[view]}
+<img src="${svgUrl}" alt="${VIEW_TITLES[view]} of ${fileName}" width="300" />
+`;
+        })
+        .join("\n");
 
----
-*Powered by [tscircuit](https://tscircuit.com) • Built with ❤️*`;
+      comment += `<details>
+<summary><strong>${fileName}</strong></summary>
+
+${viewImages}
+**📈 Circuit Complexity:** ${getCircuitComplexity(file.circuitJson)}
+**📏 File Size:** ${file.metadata?.fileSize ? formatBytes(file.metadata.fileSize) : "Unknown"}
+
+</details>
+
+`;
+    });
+  }
 
   return comment;
 }
 
+function renderMoreRows(total: number): string {
+  return total > MAX_SECTION_ROWS
+    ? `…and ${total - MAX_SECTION_ROWS} more\n`
+    : "";
+}
+
+/**
+ * Cuts the comment at the last line that fits GitHub's size limit and closes
+ * any <details> block left open so the rest of the comment still renders.
+ */
+function truncateComment(comment: string): string {
+  if (comment.length <= MAX_COMMENT_LENGTH) return comment;
+
+  const cutAt = comment.lastIndexOf("\n", MAX_COMMENT_LENGTH);
+  const kept = comment.slice(0, cutAt + 1);
+  const openDetails =
+    (kept.match(/<details>/g)?.length ?? 0) -
+    (kept.match(/<\/details>/g)?.length ?? 0);
+  const remainingLines = comment.slice(cutAt + 1).split("\n").length;
+
+  return `${kept}${"\n</details>\n".repeat(Math.max(0, openDetails))}
+…and ${remainingLines} more lines, see the deployment for the full report
+
+`;
+}
+
 function getCircuitComplexity(circuitJson: any): string {
   if (!circuitJson) return "Unknown";
 
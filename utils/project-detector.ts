@@ -0,0 +1,126 @@
+import fs from "node:fs";
+import path from "node:path";
+import { SnapshotProcessor } from "./snapshot-processor";
+import { PROJECT_CONFIG_FILE_NAME } from "../shared/constants";
+
+export interface DeployProject {
+  name: string;
+  // Project root relative to the build root, always with forward slashes
+  path: string;
+  directory: string;
+}
+
+export class ProjectDetector {
+  /**
+   * Returns the projects to deploy separately. Projects listed in the root
+   * tscircuit-deploy.json are used as-is; otherwise every sub-folder with its
+   * own package.json and circuit files is a project, provided there are at
+   * least two of them and the root has no circuit files outside of them. An
+   * empty list means the root is built as one project.
+   */
+  static async detectProjects(rootDirectory: string): Promise<DeployProject[]> {
+    const rootProcessor = new SnapshotProcessor(rootDirectory);
+    const rootConfig = await rootProcessor.loadProjectConfig();
+
+    if (rootConfig.projects) {
+      return rootConfig.projects.map((project) => {
+        const directory = path.resolve(rootDirectory, project.path);
+        const relativePath = path.relative(rootDirectory, directory);
+
+        if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+          throw new Error(
+            `Invalid ${PROJECT_CONFIG_FILE_NAME}: project ${project.path} is outside the repository`,
+          );
+        }
+        if (!fs.existsSync(directory)) {
+          throw new Error(
+            `Invalid ${PROJECT_CONFIG_FILE_NAME}: project ${project.path} not found`,
+          );
+        }
+
+        const projectPath = this.toProjectPath(relativePath);
+        return {
+          name: project.name || projectPath,
+          path: projectPath,
+          directory,
+        };
+      });
+    }
+
+    const projects: DeployProject[] = [];
+    const directories = this.findPackageDirectories(rootDirectory).sort();
+    for (const directory of directories) {
+      const processor = new SnapshotProcessor(directory);
+      await processor.loadProjectConfig();
+      const circuitFiles = await processor.findCircuitFiles();
+
+      if (circuitFiles.length > 0) {
+        const projectPath = this.toProjectPath(
+          path.relative(rootDirectory, directory),
+        );
+        projects.push({ name: projectPath, path: projectPath, directory });
+      }
+    }
+
+    if (projects.length < 2) {
+      return [];
+    }
+
+    // Splitting would drop the root's own boards, so build it as a whole
+    const isInProject = (filePath: string) =>
+      projects.some((project) => {
+        const relativePath = path.relative(
+          project.directory,
+          path.resolve(filePath),
+        );
+        return !relativePath.startsWith("..") && !path.isAbsolute(relativePath);
+      });
+    const rootCircuitFiles = await rootProcessor.findCircuitFiles();
+    if (!rootCircuitFiles.every(isInProject)) {
+      console.log(
+        "Circuit files outside the sub-projects found, building the root as one project",
+      );
+      return [];
+    }
+
+    return projects;
+  }
+
+  private static findPackageDirectories(
+    dir: string,
+    rootDirectory: string = dir,
+    directories: string[] = [],
+  ): string[] {
+    if (
+      dir !== rootDirectory &&
+      fs.existsSync(path.join(dir, "package.json"))
+    ) {
+      // Nested packages belong to the outermost project
+      directories.push(dir);
+      return directories;
+    }
+
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (
+        entry.isDirectory() &&
+        !entry.name.startsWith(".") &&
+        entry.name !== "node_modules" &&
+        entry.name !== "dist" &&
+        entry.name !== "build"
+      ) {
+        this.findPackageDirectories(
+          path.join(dir, entry.name),
+          rootDirectory,
+          directories,
+        );
+      }
+    }
+
+    return directories;
+  }
+
+  private static toProjectPath(relativePath: string): string {
+    return relativePath.split(path.sep).join("/") || ".";
+  }
+}
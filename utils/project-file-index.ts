@@ -0,0 +1,211 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import {
+  ASSET_MAX_SIZE_BYTES,
+  DEFAULT_ASSET_EXTENSIONS,
+} from "../shared/constants";
+
+const ALLOWED_FILE_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js"];
+const IGNORED_DIRECTORIES = ["node_modules", "dist", "build", ".tscircuit"];
+// Same heuristic as git: a NUL byte near the start means binary content
+const BINARY_SNIFF_LENGTH = 8000;
+
+export interface ProjectFileEntry {
+  // utf-8 text, or base64 for binary assets such as .glb or .png
+  content: string;
+  encoding: "utf-8" | "base64";
+  hash: string;
+  size: number;
+  lastModified: string;
+}
+
+export interface ProjectFileIndexOptions {
+  /** Extensions of non-code files (footprints, models, images) to include */
+  assetExtensions?: string[];
+  /** Assets larger than this are skipped with a build warning */
+  maxAssetSizeBytes?: number;
+}
+
+/**
+ * In-memory snapshot of the project sources, read once per build. Paths are
+ * relative to the project root with forward slashes, as CircuitRunner expects.
+ */
+export class ProjectFileIndex {
+  private files = new Map<string, ProjectFileEntry>();
+  private fsMap: Record<string, string> | null = null;
+  private binaryAssetMap: Record<string, string> | null = null;
+  private assetExtensions: string[];
+  private maxAssetSizeBytes: number;
+  readonly warnings: string[] = [];
+
+  private constructor(
+    private rootDirectory: string,
+    options: ProjectFileIndexOptions,
+  ) {
+    this.assetExtensions = (
+      options.assetExtensions ?? DEFAULT_ASSET_EXTENSIONS
+    ).map((ext) => ext.toLowerCase());
+    this.maxAssetSizeBytes = options.maxAssetSizeBytes ?? ASSET_MAX_SIZE_BYTES;
+  }
+
+  static build(
+    rootDirectory: string,
+    options: ProjectFileIndexOptions = {},
+  ): ProjectFileIndex {
+    const index = new ProjectFileIndex(rootDirectory, options);
+    index.readDirectory(rootDirectory);
+
+    const packageJsonPath = path.join(rootDirectory, "package.json");
+    if (fs.existsSync(packageJsonPath)) {
+      index.addFile(packageJsonPath);
+    }
+
+    return index;
+  }
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  toProjectPath(filePath: string): string {
+    return path
+      .relative(this.rootDirectory, path.resolve(filePath))
+      .split(path.sep)
+      .join("/");
+  }
+
+  get(filePath: string): ProjectFileEntry | undefined {
+    return this.files.get(this.toProjectPath(filePath));
+  }
+
+  /** Looks up a file by its path relative to the project root */
+  getProjectFile(projectPath: string): ProjectFileEntry | undefined {
+    return this.files.get(projectPath);
+  }
+
+  getHash(filePath: string): string | undefined {
+    return this.get(filePath)?.hash;
+  }
+
+  entries(): IterableIterator<[string, ProjectFileEntry]> {
+    return this.files.entries();
+  }
+
+  /** Adds files that do not live in the project, such as node_modules */
+  addFiles(files: Record<string, string>) {
+    const lastModified = new Date().toISOString();
+
+    for (const [projectPath, content] of Object.entries(files)) {
+      this.files.set(projectPath, {
+        content,
+        encoding: "utf-8",
+        hash: createHash("sha256").update(content).digest("hex"),
+        size: Buffer.byteLength(content, "utf8"),
+        lastModified,
+      });
+    }
+
+    this.fsMap = null;
+  }
+
+  /**
+   * Shared fsMap handed to every circuit of the build, created on first use.
+   * It only holds text files, binary assets are in toBinaryAssetMap().
+   */
+  toFsMap(): Record<string, string> {
+    if (!this.fsMap) {
+      this.fsMap = {};
+      for (const [projectPath, entry] of this.files) {
+        if (entry.encoding === "utf-8") {
+          this.fsMap[projectPath] = entry.content;
+        }
+      }
+    }
+
+    return this.fsMap;
+  }
+
+  /**
+   * Base64 content of the binary assets, keyed like the fsMap. tscircuit
+   * expects binary files in the fsMap as blob: URLs, which only resolve in
+   * the process that created them, so the circuit process adds them itself.
+   */
+  toBinaryAssetMap(): Record<string, string> {
+    if (!this.binaryAssetMap) {
+      this.binaryAssetMap = {};
+      for (const [projectPath, entry] of this.files) {
+        if (entry.encoding === "base64") {
+          this.binaryAssetMap[projectPath] = entry.content;
+        }
+      }
+    }
+
+    return this.binaryAssetMap;
+  }
+
+  private readDirectory(dir: string) {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+      console.warn(`Failed to read directory ${dir}: ${error}`);
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (
+          !entry.name.startsWith(".") &&
+          !IGNORED_DIRECTORIES.includes(entry.name)
+        ) {
+          this.readDirectory(fullPath);
+        }
+      } else if (entry.isFile()) {
+        const ext = path.extname(entry.name).toLowerCase();
+        if (ALLOWED_FILE_EXTENSIONS.includes(ext)) {
+          this.addFile(fullPath);
+        } else if (this.assetExtensions.includes(ext)) {
+          this.addAsset(fullPath);
+        }
+      }
+    }
+  }
+
+  private addAsset(fullPath: string) {
+    try {
+      const { size } = fs.statSync(fullPath);
+      if (size > this.maxAssetSizeBytes) {
+        const warning = `Skipped asset ${this.toProjectPath(fullPath)} (${size} bytes), it exceeds the ${this.maxAssetSizeBytes} byte asset limit`;
+        console.warn(warning);
+        this.warnings.push(warning);
+        return;
+      }
+    } catch (error) {
+      console.warn(`Failed to stat asset ${fullPath}: ${error}`);
+      return;
+    }
+
+    this.addFile(fullPath);
+  }
+
+  private addFile(fullPath: string) {
+    try {
+      const buffer = fs.readFileSync(fullPath);
+      const stats = fs.statSync(fullPath);
+      const isBinary = buffer.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+
+      this.files.set(this.toProjectPath(fullPath), {
+        content: buffer.toString(isBinary ? "base64" : "utf-8"),
+        encoding: isBinary ? "base64" : "utf-8",
+        hash: createHash("sha256").update(buffer).digest("hex"),
+        size: stats.size,
+        lastModified: stats.mtime.toISOString(),
+      });
+    } catch (error) {
+      console.warn(`Failed to read file ${fullPath}: ${error}`);
+    }
+  }
+}
@@ -1,11 +1,32 @@
 import fs from "node:fs";
 import path from "node:path";
-import { CircuitRunner } from "tscircuit";
 import { createHash } from "node:crypto";
-import { SnapshotResult, CircuitFile } from "../shared/types";
+import { minimatch } from "minimatch";
+import {
+  SnapshotResult,
+  CircuitFile,
+  ErcReport,
+  ProjectConfig,
+  ProjectConfigSchema,
+} from "../shared/types";
 import { FileHandler } from "./file-handler";
-
-const ALLOWED_FILE_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js"];
+import { ProjectFileIndex } from "./project-file-index";
+import { DependencyResolver } from "./dependency-resolver";
+import { BuildCache } from "./build-cache";
+import { TscircuitEngine } from "./tscircuit-engine";
+import { CircuitDiagnostics } from "./circuit-diagnostics";
+import { DesignRuleChecker } from "./design-rule-checker";
+import { ElectricalRuleChecker } from "./electrical-rule-checker";
+import type { ResolvedEngine } from "./tscircuit-engine";
+import {
+  ASSET_MAX_SIZE_BYTES,
+  CIRCUIT_BUILD_CONCURRENCY,
+  CIRCUIT_RENDER_TIMEOUT_MS,
+  CIRCUIT_WORKER_MAX_MEMORY_MB,
+  PROJECT_CONFIG_FILE_NAME,
+} from "../shared/constants";
+import { runCircuitProcess } from "./circuit-process";
+import type { CircuitWorkerData } from "./circuit-process";
 
 export interface BuildProgress {
   stage: string;
@@ -14,16 +35,91 @@ export interface BuildProgress {
   timestamp: Date;
 }
 
+export interface SnapshotProcessorOptions {
+  /** Aborting the signal stops the build before the next circuit file */
+  signal?: AbortSignal;
+  /** Maximum time a single circuit file may take to evaluate and render */
+  renderTimeoutMs?: number;
+  /** Maximum number of circuit files evaluated at the same time */
+  concurrency?: number;
+  /** Returns the circuit JSON of an earlier build with the same cache key */
+  findCachedCircuitJson?: (cacheKey: string) => Promise<any | null>;
+}
+
 export class SnapshotProcessor {
   private workingDirectory: string;
   private onProgress?: (progress: BuildProgress) => void;
+  private signal?: AbortSignal;
+  private renderTimeoutMs: number;
+  private concurrency: number;
+  private options: SnapshotProcessorOptions;
+  private config: ProjectConfig = ProjectConfigSchema.parse({});
+  private fileIndex: ProjectFileIndex | null = null;
+  private engine: ResolvedEngine | null = null;
+  // Overall progress of the processing stage, based on completed files
+  private processingProgress = 25;
 
   constructor(
     workingDirectory: string,
     onProgress?: (progress: BuildProgress) => void,
+    options: SnapshotProcessorOptions = {},
   ) {
     this.workingDirectory = workingDirectory;
     this.onProgress = onProgress;
+    this.options = options;
+    this.signal = options.signal;
+    this.renderTimeoutMs = options.renderTimeoutMs ?? CIRCUIT_RENDER_TIMEOUT_MS;
+    this.concurrency = Math.max(
+      1,
+      options.concurrency ?? CIRCUIT_BUILD_CONCURRENCY,
+    );
+  }
+
+  private throwIfCancelled() {
+    if (this.signal?.aborted) {
+      throw new Error("Build was cancelled");
+    }
+  }
+
+  /** Evaluates a circuit in a child process, see runCircuitProcess */
+  private evaluateInChildProcess(
+    data: CircuitWorkerData,
+    filePath: string,
+  ): Promise<any> {
+    return runCircuitProcess(data, {
+      filePath,
+      timeoutMs: this.renderTimeoutMs,
+      maxMemoryMb: CIRCUIT_WORKER_MAX_MEMORY_MB,
+      signal: this.signal,
+      onProgress: (message) =>
+        this.updateProgress(
+          "processing",
+          this.processingProgress,
+          `${message} (${filePath})`,
+        ),
+    });
+  }
+
+  private async mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const runners = Array.from(
+      { length: Math.min(limit, items.length) },
+      async () => {
+        while (nextIndex < items.length) {
+          const index = nextIndex++;
+          results[index] = await fn(items[index], index);
+        }
+      },
+    );
+
+    await Promise.all(runners);
+    return results;
   }
 
   private updateProgress(stage: string, progress: number, message: string) {
@@ -37,10 +133,99 @@ export class SnapshotProcessor {
     }
   }
 
+  /**
+   * Loads tscircuit-deploy.json from the project root. A missing file falls
+   * back to the defaults, an invalid one fails the build.
+   */
+  async loadProjectConfig(): Promise<ProjectConfig> {
+    const configPath = path.join(
+      this.workingDirectory,
+      PROJECT_CONFIG_FILE_NAME,
+    );
+
+    if (!fs.existsSync(configPath)) {
+      console.log(`No ${PROJECT_CONFIG_FILE_NAME} found, using defaults`);
+      this.config = ProjectConfigSchema.parse({});
+      return this.config;
+    }
+
+    let rawConfig: unknown;
+    try {
+      rawConfig = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    } catch (error) {
+      throw new Error(
+        `Invalid ${PROJECT_CONFIG_FILE_NAME}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    const parsed = ProjectConfigSchema.safeParse(rawConfig);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+        .join("; ");
+      throw new Error(`Invalid ${PROJECT_CONFIG_FILE_NAME}: ${issues}`);
+    }
+
+    this.config = parsed.data;
+
+    // Explicit processor options take precedence over the repository config,
+    // which may lower the server limits but never raise them
+    if (
+      this.options.renderTimeoutMs === undefined &&
+      this.config.build.renderTimeoutMs !== undefined
+    ) {
+      this.renderTimeoutMs = Math.min(
+        this.config.build.renderTimeoutMs,
+        CIRCUIT_RENDER_TIMEOUT_MS,
+      );
+    }
+    if (
+      this.options.concurrency === undefined &&
+      this.config.build.concurrency !== undefined
+    ) {
+      this.concurrency = Math.min(
+        this.config.build.concurrency,
+        CIRCUIT_BUILD_CONCURRENCY,
+      );
+    }
+
+    console.log(`Loaded ${PROJECT_CONFIG_FILE_NAME}:`, this.config);
+    return this.config;
+  }
+
   async findCircuitFiles(): Promise<string[]> {
     this.updateProgress("discovery", 10, "Finding circuit files...");
     const files: string[] = [];
 
+    if (this.config.entrypoints) {
+      for (const entrypoint of this.config.entrypoints) {
+        const absolutePath = path.resolve(this.workingDirectory, entrypoint);
+        const projectPath = path.relative(this.workingDirectory, absolutePath);
+        if (
+          projectPath === ".." ||
+          projectPath.startsWith(`..${path.sep}`) ||
+          path.isAbsolute(projectPath)
+        ) {
+          throw new Error(
+            `Invalid ${PROJECT_CONFIG_FILE_NAME}: entrypoint ${entrypoint} is outside the project`,
+          );
+        }
+        if (!fs.existsSync(absolutePath)) {
+          throw new Error(
+            `Invalid ${PROJECT_CONFIG_FILE_NAME}: entrypoint "${entrypoint}" not found`,
+          );
+        }
+        files.push(path.relative(process.cwd(), absolutePath));
+      }
+      console.log("Entrypoints from config:", files);
+      this.updateProgress(
+        "discovery",
+        20,
+        `Using ${files.length} configured entrypoints`,
+      );
+      return files;
+    }
+
     try {
       const manualFiles = await this.findCircuitFilesManually(
         this.workingDirectory,
@@ -55,6 +240,23 @@ export class SnapshotProcessor {
     return files;
   }
 
+  /** Path of a file relative to the project root, used for config globs */
+  private getProjectPath(filePath: string): string {
+    return path
+      .relative(this.workingDirectory, path.resolve(filePath))
+      .split(path.sep)
+      .join("/");
+  }
+
+  private matchesConfigGlobs(projectPath: string): boolean {
+    const matches = (pattern: string) =>
+      minimatch(projectPath, pattern, { dot: true });
+
+    return (
+      this.config.include.some(matches) && !this.config.exclude.some(matches)
+    );
+  }
+
   private async findCircuitFilesManually(
     dir: string,
     files: string[] = [],
@@ -66,20 +268,11 @@ export class SnapshotProcessor {
       const relativePath = path.relative(process.cwd(), fullPath);
 
       if (entry.isDirectory()) {
-        if (
-          !entry.name.startsWith(".") &&
-          entry.name !== "node_modules" &&
-          entry.name !== "dist" &&
-          entry.name !== "build"
-        ) {
+        if (!entry.name.startsWith(".") && entry.name !== "node_modules") {
           await this.findCircuitFilesManually(fullPath, files);
         }
       } else if (entry.isFile()) {
-        if (
-          entry.name.endsWith(".circuit.tsx") ||
-          entry.name.endsWith(".circuit.ts") ||
-          entry.name.endsWith(".board.tsx")
-        ) {
+        if (this.matchesConfigGlobs(this.getProjectPath(fullPath))) {
           files.push(relativePath);
         }
       }
@@ -91,48 +284,47 @@ export class SnapshotProcessor {
   private async generateCircuitJson(filePath: string): Promise<any> {
     this.updateProgress(
       "processing",
-      0,
+      this.processingProgress,
       `Generating circuit JSON for ${filePath}`,
     );
 
     try {
-      const absoluteFilePath = path.resolve(this.workingDirectory, filePath);
+      // Discovered paths are relative to the process, not the project
+      const absoluteFilePath = path.resolve(filePath);
 
       if (!fs.existsSync(absoluteFilePath)) {
         throw new Error(`Circuit file not found: ${absoluteFilePath}`);
       }
 
-      const runner = new CircuitRunner();
-      const projectDir = path.dirname(absoluteFilePath);
-      const relativeComponentPath = path.relative(projectDir, absoluteFilePath);
-
-      const fsMap: Record<string, string> = {};
-
-      fsMap[relativeComponentPath] = fs.readFileSync(absoluteFilePath, "utf-8");
-
-      const packageJsonPath = path.join(projectDir, "package.json");
-      if (fs.existsSync(packageJsonPath)) {
-        fsMap["package.json"] = fs.readFileSync(packageJsonPath, "utf-8");
+      // The project root is the fsMap root so imports across folders resolve
+      const fileIndex = this.getFileIndex();
+      const relativeComponentPath = fileIndex.toProjectPath(absoluteFilePath);
+
+      // Every circuit shares the build's fsMap; entrypoints outside the
+      // indexed sources (e.g. in an ignored folder) are added on top
+      let fsMap = fileIndex.toFsMap();
+      if (!(relativeComponentPath in fsMap)) {
+        fsMap = {
+          ...fsMap,
+          [relativeComponentPath]: fs.readFileSync(absoluteFilePath, "utf-8"),
+        };
       }
 
-      this.readProjectFiles(projectDir, projectDir, fsMap);
-
       this.updateProgress(
         "processing",
-        30,
-        `Loaded ${Object.keys(fsMap).length} files into virtual file system`,
+        this.processingProgress,
+        `Loaded ${Object.keys(fsMap).length} files into virtual file system for ${filePath}`,
       );
 
-      await runner.executeWithFsMap({
-        fsMap,
-        mainComponentPath: relativeComponentPath,
-      });
-
-      this.updateProgress("processing", 60, "Rendering circuit...");
-      await runner.renderUntilSettled();
-
-      this.updateProgress("processing", 80, "Extracting circuit JSON...");
-      const circuitJson = await runner.getCircuitJson();
+      const circuitJson = await this.evaluateInChildProcess(
+        {
+          fsMap,
+          binaryAssets: fileIndex.toBinaryAssetMap(),
+          mainComponentPath: relativeComponentPath,
+          enginePath: this.getEngine().modulePath,
+        },
+        filePath,
+      );
 
       if (
         !circuitJson ||
@@ -143,7 +335,7 @@ export class SnapshotProcessor {
 
       this.updateProgress(
         "processing",
-        90,
+        this.processingProgress,
         `Circuit JSON generated successfully for ${filePath}`,
       );
       return circuitJson;
@@ -152,42 +344,162 @@ export class SnapshotProcessor {
     }
   }
 
-  private readProjectFiles(
-    dir: string,
-    baseDir: string,
-    fsMap: Record<string, string>,
-  ) {
+  private getFileIndex(): ProjectFileIndex {
+    if (!this.fileIndex) {
+      this.fileIndex = ProjectFileIndex.build(this.workingDirectory, {
+        assetExtensions: this.config.assets.extensions,
+        // The repository may lower the server's asset limit, not raise it
+        maxAssetSizeBytes: Math.min(
+          this.config.assets.maxSizeBytes ?? ASSET_MAX_SIZE_BYTES,
+          ASSET_MAX_SIZE_BYTES,
+        ),
+      });
+      console.log(
+        `Indexed ${this.fileIndex.size} project files in ${this.workingDirectory}`,
+      );
+    }
+
+    return this.fileIndex;
+  }
+
+  /**
+   * Installs the dependencies of the project's package.json into the file
+   * index so circuits can import them.
+   */
+  private async resolveDependencies(fileIndex: ProjectFileIndex) {
+    const packageJsonFile = fileIndex.get(
+      path.join(this.workingDirectory, "package.json"),
+    );
+    if (!packageJsonFile) {
+      return { versions: {}, warnings: [] };
+    }
+
+    let packageJson: { dependencies?: Record<string, string> };
     try {
-      const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-        const relativePath = path.relative(baseDir, fullPath);
-
-        if (entry.isDirectory()) {
-          if (
-            !entry.name.startsWith(".") &&
-            entry.name !== "node_modules" &&
-            entry.name !== "dist" &&
-            entry.name !== "build" &&
-            entry.name !== ".tscircuit"
-          ) {
-            this.readProjectFiles(fullPath, baseDir, fsMap);
-          }
-        } else if (entry.isFile()) {
-          const ext = path.extname(entry.name);
-          if (ALLOWED_FILE_EXTENSIONS.includes(ext)) {
-            try {
-              fsMap[relativePath] = fs.readFileSync(fullPath, "utf-8");
-            } catch (error) {
-              console.warn(`Failed to read file ${relativePath}: ${error}`);
-            }
-          }
-        }
+      packageJson = JSON.parse(packageJsonFile.content);
+    } catch (error) {
+      return {
+        versions: {},
+        warnings: [`Could not parse package.json: ${error}`],
+      };
+    }
+
+    const dependencyCount = Object.keys(packageJson.dependencies ?? {}).length;
+    if (dependencyCount === 0) {
+      return { versions: {}, warnings: [] };
+    }
+
+    this.updateProgress(
+      "dependencies",
+      22,
+      `Resolving ${dependencyCount} dependencies...`,
+    );
+
+    const resolved = await new DependencyResolver({
+      signal: this.signal,
+    }).resolve(packageJson);
+    fileIndex.addFiles(resolved.files);
+
+    this.updateProgress(
+      "dependencies",
+      24,
+      `Resolved ${Object.keys(resolved.versions).length} packages`,
+    );
+
+    return { versions: resolved.versions, warnings: resolved.warnings };
+  }
+
+  /**
+   * Looks up an earlier build of the same sources. Cache failures only cost
+   * a rebuild, so they are logged and never fail the file.
+   */
+  private async findCachedCircuitJson(cacheKey?: string): Promise<any | null> {
+    if (!cacheKey || !this.options.findCachedCircuitJson) {
+      return null;
+    }
+
+    try {
+      return await this.options.findCachedCircuitJson(cacheKey);
+    } catch (error) {
+      console.warn(`Build cache lookup failed for ${cacheKey}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Resolves the tscircuit version requested by the project's package.json
+   * once per build; without a request the bundled version is used.
+   */
+  private getEngine(): ResolvedEngine {
+    if (!this.engine) {
+      let requestedVersion: string | undefined;
+      const packageJsonFile = this.getFileIndex().get(
+        path.join(this.workingDirectory, "package.json"),
+      );
+
+      try {
+        const packageJson = packageJsonFile
+          ? JSON.parse(packageJsonFile.content)
+          : {};
+        requestedVersion =
+          packageJson.dependencies?.tscircuit ??
+          packageJson.devDependencies?.tscircuit;
+      } catch {
+        // Already reported as a warning while resolving dependencies
       }
+
+      this.engine = TscircuitEngine.resolve(requestedVersion);
+      console.log(
+        `Using tscircuit ${this.engine.version}${requestedVersion ? ` (requested ${requestedVersion})` : ""}`,
+      );
+    }
+
+    return this.engine;
+  }
+
+  /**
+   * Runs the DRC stage on a built board. A checker failure is logged and
+   * leaves the board without a DRC report instead of failing the file.
+   */
+  private runDesignRuleCheck(
+    filePath: string,
+    circuitJson: any,
+  ): CircuitFile["drc"] {
+    if (!this.config.drc.enabled) return undefined;
+
+    try {
+      const violations = DesignRuleChecker.check(circuitJson, this.config.drc);
+      if (violations.length > 0) {
+        console.warn(
+          `DRC found ${violations.length} violations in ${filePath}`,
+        );
+      }
+      return { violations };
     } catch (error) {
-      console.warn(`Failed to read directory ${dir}: ${error}`);
+      console.warn(`DRC failed for ${filePath}: ${error}`);
+      return undefined;
+    }
+  }
+
+  /** Checker failures skip the file's report instead of failing the build */
+  private runElectricalRuleChecks(circuitFiles: CircuitFile[]): ErcReport[] {
+    const reports: ErcReport[] = [];
+
+    for (const file of circuitFiles) {
+      if (file.status === "error") continue;
+
+      try {
+        const issues = ElectricalRuleChecker.check(file.circuitJson);
+        if (issues.length > 0) {
+          console.warn(`ERC found ${issues.length} issues in ${file.path}`);
+        }
+        reports.push({ path: file.path, issues });
+      } catch (error) {
+        console.warn(`ERC failed for ${file.path}: ${error}`);
+      }
     }
+
+    return reports;
   }
 
   private async getFileMetadata(filePath: string): Promise<{
@@ -195,6 +507,15 @@ export class SnapshotProcessor {
     lastModified: string;
     checksum: string;
   }> {
+    const indexedFile = this.getFileIndex().get(filePath);
+    if (indexedFile) {
+      return {
+        fileSize: indexedFile.size,
+        lastModified: indexedFile.lastModified,
+        checksum: indexedFile.hash,
+      };
+    }
+
     const absolutePath = path.resolve(filePath);
     const stats = fs.statSync(absolutePath);
     const content = fs.readFileSync(absolutePath, "utf-8");
@@ -226,7 +547,10 @@ export class SnapshotProcessor {
     try {
       this.updateProgress("init", 5, "Starting snapshot generation...");
 
+      result.config = await this.loadProjectConfig();
+
       const circuitFiles = await this.findCircuitFiles();
+      this.throwIfCancelled();
 
       if (circuitFiles.length === 0) {
         this.updateProgress("complete", 100, "No circuit files found");
@@ -234,12 +558,30 @@ export class SnapshotProcessor {
         result.buildTime = Math.round((Date.now() - startTime) / 1000);
         result.metadata = {
           totalFiles: 0,
+          failedFiles: 0,
           repositorySize: await this.getRepositorySize(),
           buildEnvironment: process.env.NODE_ENV || "production",
         };
         return result;
       }
 
+      // Read the project sources once; every circuit evaluates against them
+      const fileIndex = this.getFileIndex();
+      const warnings = [...fileIndex.warnings];
+
+      const dependencies = await this.resolveDependencies(fileIndex);
+      this.throwIfCancelled();
+      warnings.push(...dependencies.warnings);
+
+      const engine = this.getEngine();
+      if (engine.warning) {
+        warnings.push(engine.warning);
+      }
+
+      if (warnings.length > 0) {
+        result.warnings = warnings;
+      }
+
       this.updateProgress(
         "processing",
         25,
@@ -247,69 +589,143 @@ export class SnapshotProcessor {
       );
 
       const totalFiles = circuitFiles.length;
-      result.circuitFiles = await Promise.all(
-        circuitFiles.map(async (file, index) => {
+      let completedFiles = 0;
+      this.processingProgress = 25;
+      result.circuitFiles = await this.mapWithConcurrency(
+        circuitFiles,
+        this.concurrency,
+        async (file) => {
+          this.throwIfCancelled();
           console.log(`Starting processing of file: ${file}`);
-          const fileProgress = Math.round(((index + 1) / totalFiles) * 70) + 25;
-          this.updateProgress("processing", fileProgress, `Processing ${file}`);
-
-          const circuitJson = await this.generateCircuitJson(file);
-          console.log(`Generated circuit JSON for file: ${file}`);
-
-          const metadata = await this.getFileMetadata(file);
-          console.log(`Retrieved metadata for file: ${file}`);
+          this.updateProgress(
+            "processing",
+            this.processingProgress,
+            `Processing ${file}`,
+          );
 
           const circuitFile: CircuitFile = {
             path: file.split(`tmp/build-${deploymentId}`)[1] || file,
             name: path.basename(file),
-            circuitJson,
-            metadata,
+            displayName:
+              this.config.boards[this.getProjectPath(file)]?.displayName,
+            circuitJson: null,
+            status: "success",
           };
 
+          try {
+            circuitFile.metadata = await this.getFileMetadata(file);
+            console.log(`Retrieved metadata for file: ${file}`);
+
+            circuitFile.cacheKey =
+              BuildCache.computeCacheKey(fileIndex, file, {
+                engineVersion: engine.version,
+                dependencies: dependencies.versions,
+              }) ?? undefined;
+
+            const cachedCircuitJson = await this.findCachedCircuitJson(
+              circuitFile.cacheKey,
+            );
+            if (cachedCircuitJson) {
+              circuitFile.circuitJson = cachedCircuitJson;
+              circuitFile.cached = true;
+              console.log(`Reused cached circuit JSON for file: ${file}`);
+            } else {
+              circuitFile.circuitJson = await this.generateCircuitJson(file);
+              console.log(`Generated circuit JSON for file: ${file}`);
+            }
+
+            const diagnostics = CircuitDiagnostics.extract(
+              circuitFile.circuitJson,
+            );
+            if (diagnostics.length > 0) {
+              circuitFile.diagnostics = diagnostics;
+              console.warn(
+                `Circuit JSON of ${file} contains ${diagnostics.length} errors`,
+              );
+            }
+
+            circuitFile.drc = this.runDesignRuleCheck(
+              file,
+              circuitFile.circuitJson,
+            );
+          } catch (error) {
+            // One broken board must not discard the boards that did build
+            if (this.signal?.aborted) throw error;
+
+            circuitFile.status = "error";
+            circuitFile.error =
+              error instanceof Error ? error.message : String(error);
+            console.warn(`Failed to build ${file}: ${circuitFile.error}`);
+          }
+          this.throwIfCancelled();
+
+          completedFiles++;
+          this.processingProgress =
+            Math.round((completedFiles / totalFiles) * 70) + 25;
+          this.updateProgress(
+            "processing",
+            this.processingProgress,
+            `Processed ${completedFiles}/${totalFiles} circuit files (${file})`,
+          );
+
           console.log(`Completed processing of file: ${file}`);
           return circuitFile;
-        }),
+        },
       );
 
-      this.updateProgress(
-        "complete",
-        100,
-        `Successfully processed ${circuitFiles.length} circuit files`,
+      const failedFiles = result.circuitFiles.filter(
+        (file) => file.status === "error",
       );
-      result.success = true;
+      const cachedFiles = result.circuitFiles.filter((file) => file.cached);
+      if (this.config.erc.enabled) {
+        result.erc = this.runElectricalRuleChecks(result.circuitFiles);
+      }
+      result.success = failedFiles.length < result.circuitFiles.length;
       result.buildTime = Math.round((Date.now() - startTime) / 1000);
       result.metadata = {
         totalFiles: circuitFiles.length,
+        failedFiles: failedFiles.length,
+        cachedFiles: cachedFiles.length,
         repositorySize: await this.getRepositorySize(),
         buildEnvironment: process.env.NODE_ENV || "production",
+        engineVersion: engine.version,
+        dependencies: dependencies.versions,
       };
 
+      if (!result.success) {
+        result.error = `All ${failedFiles.length} circuit files failed to build. First error: ${failedFiles[0].error}`;
+        this.updateProgress("error", 100, result.error);
+      } else if (failedFiles.length > 0) {
+        this.updateProgress(
+          "complete",
+          100,
+          `Processed ${circuitFiles.length} circuit files, ${failedFiles.length} failed`,
+        );
+      } else {
+        this.updateProgress(
+          "complete",
+          100,
+          `Successfully processed ${circuitFiles.length} circuit files (${cachedFiles.length} from cache)`,
+        );
+      }
+
       return result;
     } catch (error) {
+      // Cancellation is handled by the caller, never reported as a build error
+      if (this.signal?.aborted) {
+        throw error;
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      const isNonRetryable =
-        errorMessage.includes("404 Not Found") ||
-        errorMessage.includes("403 Forbidden") ||
-        errorMessage.includes("repository may be private") ||
-        errorMessage.includes("Archive URL may be invalid");
 
-      if (isNonRetryable) {
-        this.updateProgress(
-          "error",
-          0,
-          `Snapshot generation failed: ${errorMessage}`,
-        );
-        result.error = errorMessage;
-        result.buildTime = Math.round((Date.now() - startTime) / 1000);
-        return result;
-      }
-
-      // If it's a retryable error, we'll let the retry mechanism handle it
-      // The retry mechanism will call this function again with the same file
-      // and potentially a different error if it's still not successful.
-      // For now, we'll just return the result as is, and the retry mechanism
-      // will decide if it should be retried or marked as failed.
+      this.updateProgress(
+        "error",
+        0,
+        `Snapshot generation failed: ${errorMessage}`,
+      );
+      result.error = errorMessage;
+      result.buildTime = Math.round((Date.now() - startTime) / 1000);
       return result;
     }
   }
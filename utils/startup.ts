@@ -11,12 +11,21 @@ export async function initializeServices(): Promise<void> {
     console.log("🚀 Initializing tscircuit-deploy services...");
 
     const jobQueue = JobQueue.getInstance();
+
+    const reapedJobs = await jobQueue.reapExpiredJobs();
+    if (reapedJobs > 0) {
+      console.log(`♻️ Re-queued ${reapedJobs} jobs with expired leases`);
+    }
+
     const queueLength = await jobQueue.getQueueLength();
 
     console.log(`📊 Found ${queueLength} jobs in queue`);
 
     if (queueLength > 0) {
       console.log("🔄 Resuming job processing...");
+      jobQueue
+        .startProcessing()
+        .catch((error) => console.error("Job processing failed:", error));
     }
 
     console.log("✅ Services initialized successfully");
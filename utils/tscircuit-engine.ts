@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createRequire } from "node:module";
+import semver from "semver";
+import { TSCIRCUIT_VERSIONS_DIR } from "../shared/constants";
+
+export interface ResolvedEngine {
+  version: string;
+  /** Entry module of a pinned install, unset for the bundled tscircuit */
+  modulePath?: string;
+  warning?: string;
+}
+
+/**
+ * Picks the tscircuit version a project is evaluated with. The range from the
+ * project's package.json is matched against the bundled tscircuit and the
+ * versions installed in TSCIRCUIT_VERSIONS_DIR, so a server upgrade does not
+ * change how an existing commit renders.
+ */
+export class TscircuitEngine {
+  private static bundledVersion: string | null = null;
+
+  /** Version of the tscircuit package bundled with the server */
+  static getBundledVersion(): string {
+    if (!this.bundledVersion) {
+      try {
+        const require = createRequire(import.meta.url);
+        const packageJson = JSON.parse(
+          fs.readFileSync(require.resolve("tscircuit/package.json"), "utf-8"),
+        );
+        this.bundledVersion = packageJson.version as string;
+      } catch (error) {
+        console.warn(`Could not determine the tscircuit version: ${error}`);
+        this.bundledVersion = "unknown";
+      }
+    }
+
+    return this.bundledVersion;
+  }
+
+  static getInstalledVersions(
+    versionsDirectory: string = TSCIRCUIT_VERSIONS_DIR,
+  ): string[] {
+    if (!fs.existsSync(versionsDirectory)) return [];
+
+    return fs
+      .readdirSync(versionsDirectory)
+      .filter(
+        (version) =>
+          semver.valid(version) &&
+          fs.existsSync(this.getPackageJsonPath(versionsDirectory, version)),
+      );
+  }
+
+  static resolve(
+    requestedRange?: string,
+    versionsDirectory: string = TSCIRCUIT_VERSIONS_DIR,
+  ): ResolvedEngine {
+    const bundledVersion = this.getBundledVersion();
+    if (!requestedRange) {
+      return { version: bundledVersion };
+    }
+
+    const validRange = semver.validRange(requestedRange);
+    if (!validRange) {
+      return {
+        version: bundledVersion,
+        warning: `tscircuit version "${requestedRange}" is not a semver range, using the bundled ${bundledVersion}`,
+      };
+    }
+
+    const candidates = this.getInstalledVersions(versionsDirectory);
+    if (semver.valid(bundledVersion)) {
+      candidates.push(bundledVersion);
+    }
+
+    const version = semver.maxSatisfying(candidates, validRange);
+    if (!version) {
+      return {
+        version: bundledVersion,
+        warning: `tscircuit@${requestedRange} is not installed on the build server, using the bundled ${bundledVersion}`,
+      };
+    }
+    if (version === bundledVersion) {
+      return { version };
+    }
+
+    try {
+      const require = createRequire(
+        path.join(versionsDirectory, version, "package.json"),
+      );
+      return { version, modulePath: require.resolve("tscircuit") };
+    } catch (error) {
+      return {
+        version: bundledVersion,
+        warning: `Could not load the installed tscircuit@${version}, using the bundled ${bundledVersion}: ${error}`,
+      };
+    }
+  }
+
+  private static getPackageJsonPath(
+    versionsDirectory: string,
+    version: string,
+  ): string {
+    return path.join(
+      versionsDirectory,
+      version,
+      "node_modules",
+      "tscircuit",
+      "package.json",
+    );
+  }
+}